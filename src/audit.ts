@@ -0,0 +1,142 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    AuditRecord,
+    copyResult,
+    FieldValidationObject,
+    pathToArray,
+    ValidityConfig
+} from "./helpers";
+import { uuid } from "./uuid";
+import { OutputRule } from "./output";
+
+/**
+ * Default audit handler, which prints audited results to the console
+ *
+ * @param {AuditRecord} record - audited validation result
+ */
+export function defaultAuditHandler(record: AuditRecord) {
+    console.log(
+        `Validation audit for request id:${record.requestId}, ` +
+        `path:${record.path.join('.')}, error:${record.error && record.error.message}`
+    );
+}
+
+/**
+ * Marks validation results as audited
+ *
+ * @param result - validation result or list of results
+ * @returns {any} - copies of the validation results
+ */
+function markResults(result: any) {
+    const mark = (error: any) => error && typeof error === 'object' ?
+        copyResult(error, { audit: true }) :
+        error;
+
+    return Array.isArray(result) ? result.map(mark) : mark(result);
+}
+
+/**
+ * Creates validator in audit mode, which results are passed to the config audit
+ * handler instead of the response and never block field resolution
+ *
+ * @param {T} validator - field, argument, output or operation validator
+ * @returns {T} - validator in audit mode
+ */
+export function audit<T extends Function>(validator: T): T {
+    const audited: any = function (...args: any[]) {
+        const result = validator.apply(this, args);
+
+        return result && result.then ?
+            result.then(markResults) :
+            markResults(result);
+    };
+
+    audited[OutputRule] = (<any>validator)[OutputRule];
+
+    return audited;
+}
+
+/**
+ * Returns id of the request, generating one if request has no id
+ *
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ * @returns {string} - request id
+ */
+function getRequestId(requestContext: FieldValidationObject): string {
+    const validity = requestContext.validity;
+    const request = requestContext.info && requestContext.info.rootValue;
+
+    if (request && request.__graphQLValidityRequestId) {
+        return request.__graphQLValidityRequestId;
+    }
+
+    validity.___requestId = validity.___requestId || uuid();
+
+    return validity.___requestId;
+}
+
+/**
+ * Removes audited results from the list of validation results,
+ * and passes them to the config audit handler
+ *
+ * @param {any[]} results - validation results, modified in place
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ * @param {ValidityConfig} config - config options for validation
+ */
+export function processAuditResults(
+    results: any[],
+    requestContext: FieldValidationObject,
+    config: ValidityConfig
+) {
+    const audited = results.filter(result => result && result.audit);
+
+    if (!audited.length) {
+        return;
+    }
+
+    const handler = config.auditHandler || defaultAuditHandler;
+    const path = pathToArray(requestContext.astPath);
+
+    for (const error of audited) {
+        results.splice(results.indexOf(error), 1);
+
+        const record: AuditRecord = {
+            requestId: getRequestId(requestContext),
+            path: error.path || path,
+            fieldName: requestContext.fieldName,
+            parentTypeName: requestContext.parentTypeName === undefined ?
+                undefined : String(requestContext.parentTypeName),
+            error
+        };
+
+        try {
+            handler(record);
+        }
+        catch (err) {
+            console.error('Audit handler failed!', err);
+        }
+    }
+}
@@ -0,0 +1,152 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    Principal,
+    ValidityConfig,
+    ValidityError
+} from "./helpers";
+import { Validator } from "./validator-registry";
+
+// Required roles and permissions of a type or field
+export declare type AuthorizationRule = {
+    // principal must have any of the roles
+    roles?: string[];
+    // principal must have all of the permissions
+    permissions?: string[];
+    // custom error message
+    message?: string;
+}
+
+// Error code of authorization denials
+export const FORBIDDEN = 'FORBIDDEN';
+
+// Marks authorization validators, so fields guarded by them fail closed
+// if resolved without request validity state
+export const AuthorizationGuard = Symbol('AuthorizationGuard');
+
+// Authorization denial, which always blocks field resolution
+export class AuthorizationError extends ValidityError {
+    constructor(message: string, extensions?: { [key: string]: any }) {
+        super(message, FORBIDDEN, extensions);
+        this.name = "AuthorizationError";
+        this.blockResolution = true;
+    }
+}
+
+/**
+ * Returns principal of the request using config principal extractor
+ *
+ * @param context - graphql execution context
+ * @param info - graphql resolve info
+ * @returns {Principal | null | undefined} - principal of the request
+ */
+function getRequestPrincipal(context: any, info: any) {
+    const validity = info && info.rootValue && info.rootValue.__graphQLValidity;
+    const config: ValidityConfig | undefined = validity && validity.config;
+
+    if (config && config.getPrincipal) {
+        return config.getPrincipal(context, info);
+    }
+
+    return context && context.user;
+}
+
+/**
+ * Checks whether principal satisfies the rule
+ *
+ * @param {Principal} principal - principal of the request
+ * @param {AuthorizationRule} rule - required roles and permissions
+ * @returns {boolean}
+ */
+function isAuthorized(principal: Principal | null | undefined, rule: AuthorizationRule) {
+    if (!principal) {
+        return false;
+    }
+
+    const roles = principal.roles || [];
+    const permissions = principal.permissions || [];
+
+    if (rule.roles && rule.roles.length &&
+        !rule.roles.some(role => roles.indexOf(role) >= 0)) {
+        return false;
+    }
+
+    return (rule.permissions || []).every(
+        permission => permissions.indexOf(permission) >= 0
+    );
+}
+
+/**
+ * Creates validator, which denies field resolution unless principal of the
+ * request has any of required roles and all of required permissions
+ *
+ * @param {AuthorizationRule} rule - required roles and permissions
+ * @returns {Validator} - validator to be registered for a type or field
+ */
+export function authorize(rule: AuthorizationRule): Validator {
+    const guard: any = function (parent: any, args: any, context: any, info: any) {
+        if (isAuthorized(getRequestPrincipal(context, info), rule)) {
+            return [];
+        }
+
+        return [new AuthorizationError(
+            rule.message || 'Not authorized to access this field'
+        )];
+    };
+
+    guard[AuthorizationGuard] = true;
+
+    return guard;
+}
+
+/**
+ * Checks whether validator is an authorization rule
+ *
+ * @param {Function} validator - validator function
+ * @returns {boolean}
+ */
+export function isAuthorizationGuard(validator: any): boolean {
+    return !!validator && !!validator[AuthorizationGuard];
+}
+
+/**
+ * Creates validator requiring any of the roles
+ *
+ * @param {string[]} roles - list of allowed roles
+ * @returns {Validator}
+ */
+export function requireRoles(...roles: string[]): Validator {
+    return authorize({ roles });
+}
+
+/**
+ * Creates validator requiring all of the permissions
+ *
+ * @param {string[]} permissions - list of required permissions
+ * @returns {Validator}
+ */
+export function requirePermissions(...permissions: string[]): Validator {
+    return authorize({ permissions });
+}
@@ -0,0 +1,356 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    getNamedType,
+    ValidityError
+} from "./helpers";
+import {
+    OperationValidationContext,
+    OperationValidator
+} from "./operation";
+import { getFieldTargets } from "./validation";
+import { RETURN_TYPE_PREFIX } from "./magic-values";
+
+// Options of the operation depth and cost limits
+export declare type ComplexityOptions = {
+    // maximal depth of fields nesting, not limited if omitted
+    maxDepth?: number;
+    // maximal operation cost, not limited if omitted
+    maxCost?: number;
+    // cost of a field without cost override, 1 by default
+    defaultCost?: number;
+    // arguments multiplying the cost of a field and its selections, ['first', 'limit'] by default
+    listArguments?: string[];
+    // field cost overrides keyed the same way as FieldValidationDefinitions,
+    // e.g. 'Query:search', 'User', '=>Order' or '*'
+    costs?: { [key: string]: number };
+}
+
+// Computed complexity of the operation
+export declare type OperationComplexity = {
+    // operation cost
+    cost: number;
+    // maximal depth of fields nesting
+    depth: number;
+}
+
+// Error codes produced by complexity validator
+export const ComplexityErrorCodes = {
+    DEPTH: 'DEPTH_LIMIT_EXCEEDED',
+    COST: 'COST_LIMIT_EXCEEDED'
+};
+
+// Data shared while measuring operation complexity
+declare type MeasureState = {
+    options: ComplexityOptions;
+    types: any;
+    fragments: { [name: string]: any };
+    variables: { [name: string]: any };
+    visitedFragments: string[];
+    // measured fragments by name and type condition
+    measuredFragments: { [key: string]: OperationComplexity };
+    // whether limits are exceeded, so measuring is stopped
+    exceeded: boolean;
+}
+
+// Names of schema methods returning root types by operation type
+const ROOT_TYPE_GETTERS: { [operationType: string]: string } = {
+    query: 'getQueryType',
+    mutation: 'getMutationType',
+    subscription: 'getSubscriptionType'
+};
+
+/**
+ * Returns root type of the schema for a given operation type
+ *
+ * @param schema - graphql schema
+ * @param {string} operationType - 'query', 'mutation' or 'subscription'
+ * @returns {any} - root object type
+ */
+function getRootType(schema: any, operationType: string) {
+    const getter = ROOT_TYPE_GETTERS[operationType];
+
+    if (getter && schema[getter]) {
+        return schema[getter]();
+    }
+
+    return schema.getTypeMap()[
+        operationType.charAt(0).toUpperCase() + operationType.slice(1)
+    ];
+}
+
+/**
+ * Returns cost of a field, using the most specific cost override
+ *
+ * @param parentType - graphql type where field belongs to
+ * @param field - graphql field
+ * @param {MeasureState} state - measuring state of the operation
+ * @returns {number} - field cost
+ */
+function getFieldCost(parentType: any, field: any, state: MeasureState): number {
+    const costs = state.options.costs || {};
+    const targets = getFieldTargets(parentType, field);
+    const typeNames = [parentType.name].concat(targets.interfaceNames);
+    const keys = (<string[]>[]).concat(
+        typeNames.map(typeName => typeName + ':' + field.name),
+        typeNames,
+        targets.returnTypeNames.map(typeName => RETURN_TYPE_PREFIX + typeName),
+        ['*']
+    );
+
+    for (const key of keys) {
+        if (typeof costs[key] === 'number') {
+            return costs[key];
+        }
+    }
+
+    return state.options.defaultCost === undefined ? 1 : state.options.defaultCost;
+}
+
+/**
+ * Returns cost multiplier of a field from its list arguments, e.g. first: 10
+ *
+ * @param fieldNode - graphql AST field node
+ * @param {MeasureState} state - measuring state of the operation
+ * @returns {number} - multiplier, 1 if no list argument passed
+ */
+function getMultiplier(fieldNode: any, state: MeasureState): number {
+    const listArguments = state.options.listArguments || ['first', 'limit'];
+
+    for (const argument of fieldNode.arguments || []) {
+        if (listArguments.indexOf(argument.name.value) < 0) {
+            continue;
+        }
+
+        const value = argument.value.kind === 'Variable' ?
+            state.variables[argument.value.name.value] :
+            parseInt(argument.value.value, 10);
+
+        if (typeof value === 'number' && value > 0) {
+            return value;
+        }
+    }
+
+    return 1;
+}
+
+/**
+ * Checks whether measured part of the operation already exceeds the limits,
+ * costs of nested selections are never decreased by their parents
+ *
+ * @param {OperationComplexity} measure - scaled cost and depth of selections
+ * @param {ComplexityOptions} options - limits and cost model options
+ * @returns {boolean}
+ */
+function isExceeded(measure: OperationComplexity, options: ComplexityOptions): boolean {
+    return (options.maxCost !== undefined && measure.cost > options.maxCost) ||
+        (options.maxDepth !== undefined && measure.depth > options.maxDepth);
+}
+
+/**
+ * Measures cost of a selection set and maximal depth of fields nested in it,
+ * stops measuring once limits are exceeded
+ *
+ * @param selectionSet - graphql AST selection set node
+ * @param parentType - graphql type the selections are made on
+ * @param {MeasureState} state - measuring state of the operation
+ * @param {number} scale - product of list multipliers of the parent fields
+ * @param {number} depth - depth of the selection set
+ * @returns {OperationComplexity} - cost and relative depth of the selections
+ */
+function measureSelections(
+    selectionSet: any,
+    parentType: any,
+    state: MeasureState,
+    scale: number = 1,
+    depth: number = 0
+): OperationComplexity {
+    const measure: OperationComplexity = { cost: 0, depth: 0 };
+
+    for (const selection of (selectionSet && selectionSet.selections) || []) {
+        if (state.exceeded) {
+            break;
+        }
+
+        if (selection.kind === 'Field') {
+            const name = selection.name.value;
+            const fields = parentType && parentType.getFields ? parentType.getFields() : {};
+
+            if (name.indexOf('__') === 0 || !fields[name]) {
+                continue;
+            }
+
+            const multiplier = getMultiplier(selection, state);
+            const nested = measureSelections(
+                selection.selectionSet,
+                getNamedType(fields[name].type),
+                state,
+                scale * multiplier,
+                depth + 1
+            );
+
+            measure.cost += multiplier * (
+                getFieldCost(parentType, fields[name], state) + nested.cost
+            );
+            measure.depth = Math.max(measure.depth, nested.depth + 1);
+        }
+        else {
+            const nested = selection.kind === 'InlineFragment' ?
+                measureSelections(
+                    selection.selectionSet,
+                    selection.typeCondition ?
+                        state.types[selection.typeCondition.name.value] :
+                        parentType,
+                    state,
+                    scale,
+                    depth
+                ) :
+                measureFragment(selection.name.value, state, scale, depth);
+
+            measure.cost += nested.cost;
+            measure.depth = Math.max(measure.depth, nested.depth);
+        }
+
+        state.exceeded = isExceeded({
+            cost: scale * measure.cost,
+            depth: depth + measure.depth
+        }, state.options);
+    }
+
+    return measure;
+}
+
+/**
+ * Measures fragment spread, each fragment is measured once per operation
+ * and spreads of fragments being measured are skipped to break cycles
+ *
+ * @param {string} name - fragment name
+ * @param {MeasureState} state - measuring state of the operation
+ * @param {number} scale - product of list multipliers of the parent fields
+ * @param {number} depth - depth of the fragment spread
+ * @returns {OperationComplexity} - cost and relative depth of the fragment selections
+ */
+function measureFragment(
+    name: string,
+    state: MeasureState,
+    scale: number,
+    depth: number
+): OperationComplexity {
+    const fragment = state.fragments[name];
+
+    if (!fragment || ~state.visitedFragments.indexOf(name)) {
+        return { cost: 0, depth: 0 };
+    }
+
+    const typeName = fragment.typeCondition.name.value;
+    const key = name + ':' + typeName;
+
+    if (!state.measuredFragments[key]) {
+        state.visitedFragments.push(name);
+        state.measuredFragments[key] = measureSelections(
+            fragment.selectionSet,
+            state.types[typeName],
+            state,
+            scale,
+            depth
+        );
+        state.visitedFragments.pop();
+    }
+
+    return state.measuredFragments[key];
+}
+
+/**
+ * Computes cost and depth of the operation, fragments are measured once. Measuring
+ * stops once maxDepth or maxCost is exceeded, so the part measured so far is returned
+ *
+ * @param {OperationValidationContext} operation - operation data
+ * @param {ComplexityOptions} options - cost model options
+ * @returns {OperationComplexity} - operation cost and depth
+ */
+export function getOperationComplexity(
+    operation: OperationValidationContext,
+    options: ComplexityOptions = {}
+): OperationComplexity {
+    const fragments: { [name: string]: any } = {};
+
+    for (const definition of operation.document.definitions) {
+        if (definition.kind === 'FragmentDefinition') {
+            fragments[definition.name.value] = definition;
+        }
+    }
+
+    const state: MeasureState = {
+        options,
+        types: operation.schema.getTypeMap(),
+        fragments,
+        variables: operation.variables,
+        visitedFragments: [],
+        measuredFragments: {},
+        exceeded: false
+    };
+
+    return measureSelections(
+        operation.operation.selectionSet,
+        getRootType(operation.schema, operation.operationType),
+        state
+    );
+}
+
+/**
+ * Creates operation validator, which rejects operations exceeding depth or cost limits
+ * and exposes computed complexity in the response extensions
+ *
+ * @param {ComplexityOptions} options - limits and cost model options
+ * @returns {OperationValidator} - validator to be added to operation validators
+ */
+export function createComplexityValidator(options: ComplexityOptions): OperationValidator {
+    return function (operation: OperationValidationContext) {
+        const complexity = getOperationComplexity(operation, options);
+        const errors: ValidityError[] = [];
+
+        if (operation.validity) {
+            operation.validity.___complexity = complexity;
+        }
+
+        if (options.maxDepth !== undefined && complexity.depth > options.maxDepth) {
+            errors.push(new ValidityError(
+                `Query depth of ${complexity.depth} exceeds maximum depth of ${options.maxDepth}`,
+                ComplexityErrorCodes.DEPTH,
+                { depth: complexity.depth, maxDepth: options.maxDepth }
+            ));
+        }
+
+        if (options.maxCost !== undefined && complexity.cost > options.maxCost) {
+            errors.push(new ValidityError(
+                `Query cost of ${complexity.cost} exceeds maximum cost of ${options.maxCost}`,
+                ComplexityErrorCodes.COST,
+                { cost: complexity.cost, maxCost: options.maxCost }
+            ));
+        }
+
+        return errors;
+    };
+}
@@ -0,0 +1,155 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { rules } from "./rules";
+import { ArgumentValidator } from "./validator-registry";
+
+// Name of the directive compiled into validators
+export const VALIDATE_DIRECTIVE_NAME = 'validate';
+
+// Definition of the @validate directive, must be added to the schema type definitions
+export const validateDirectiveTypeDefs = `
+directive @${VALIDATE_DIRECTIVE_NAME}(
+    format: String
+    min: Float
+    max: Float
+    minLength: Int
+    maxLength: Int
+    pattern: String
+    oneOf: [String!]
+    message: String
+) on ARGUMENT_DEFINITION | INPUT_FIELD_DEFINITION | FIELD_DEFINITION
+`;
+
+// Rules available for the format argument of the directive
+const FORMATS: { [format: string]: (options: any) => ArgumentValidator } = {
+    email: rules.email,
+    url: rules.url,
+    uuid: rules.uuid,
+    date: rules.date
+};
+
+/**
+ * Converts graphql AST value node into javascript value
+ *
+ * @param node - graphql AST value node
+ * @returns {any} - javascript value
+ */
+function valueFromAst(node: any): any {
+    switch (node.kind) {
+        case 'IntValue':
+            return parseInt(node.value, 10);
+        case 'FloatValue':
+            return parseFloat(node.value);
+        case 'ListValue':
+            return node.values.map(valueFromAst);
+        case 'ObjectValue':
+            return node.fields.reduce((result: any, field: any) => {
+                result[field.name.value] = valueFromAst(field.value);
+                return result;
+            }, {});
+        case 'NullValue':
+            return null;
+        default:
+            return node.value;
+    }
+}
+
+/**
+ * Returns arguments of the @validate directive used on a schema AST node
+ *
+ * @param astNode - graphql AST node of the schema entity
+ * @returns {any} - directive arguments or undefined if directive is not used
+ */
+export function getValidateDirectiveArgs(astNode: any) {
+    const directive = ((astNode && astNode.directives) || []).find(
+        (directive: any) => directive.name.value === VALIDATE_DIRECTIVE_NAME
+    );
+
+    if (!directive) {
+        return;
+    }
+
+    return (directive.arguments || []).reduce((result: any, arg: any) => {
+        result[arg.name.value] = valueFromAst(arg.value);
+        return result;
+    }, {});
+}
+
+/**
+ * Compiles @validate directive arguments into built-in rule validators
+ *
+ * @param args - directive arguments
+ * @returns {ArgumentValidator[]} - list of validators
+ */
+export function compileValidateDirective(args: any): ArgumentValidator[] {
+    const options = { message: args.message };
+    const validators: ArgumentValidator[] = [];
+
+    if (args.format !== undefined && args.format !== null) {
+        if (!Object.prototype.hasOwnProperty.call(FORMATS, args.format)) {
+            throw new TypeError(`Unknown @${VALIDATE_DIRECTIVE_NAME} format "${args.format}"`);
+        }
+
+        validators.push(FORMATS[args.format](options));
+    }
+
+    if (typeof args.min === 'number') {
+        validators.push(rules.min(args.min, options));
+    }
+
+    if (typeof args.max === 'number') {
+        validators.push(rules.max(args.max, options));
+    }
+
+    if (typeof args.minLength === 'number' || typeof args.maxLength === 'number') {
+        validators.push(rules.length({
+            min: typeof args.minLength === 'number' ? args.minLength : undefined,
+            max: typeof args.maxLength === 'number' ? args.maxLength : undefined,
+            message: args.message
+        }));
+    }
+
+    if (typeof args.pattern === 'string') {
+        validators.push(rules.pattern(new RegExp(args.pattern), options));
+    }
+
+    if (Array.isArray(args.oneOf)) {
+        validators.push(rules.oneOf(args.oneOf, options));
+    }
+
+    return validators;
+}
+
+/**
+ * Returns validators compiled from @validate directive of a schema entity
+ *
+ * @param astNode - graphql AST node of the schema entity
+ * @returns {ArgumentValidator[]} - list of validators, empty if directive is not used
+ */
+export function getDirectiveValidators(astNode: any): ArgumentValidator[] {
+    const args = getValidateDirectiveArgs(astNode);
+
+    return args ? compileValidateDirective(args) : [];
+}
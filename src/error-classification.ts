@@ -0,0 +1,156 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    pathToArray,
+    ValidityError
+} from "./helpers";
+
+// Function which decides whether an error can be exposed to the end user
+export declare type SafeErrorPredicate = (error: any) => boolean;
+
+// Registered error class or predicate along with its resulting check function
+declare type SafeErrorEntry = {
+    classifier: Function;
+    predicate: SafeErrorPredicate;
+}
+
+// Maximum depth of originalError chain to be inspected
+const MAX_ERROR_CHAIN_DEPTH = 10;
+
+/**
+ * Checks whether error was created by graphql-validity
+ *
+ * @param error - error object to check
+ * @returns {boolean} - true if error is a ValidityError
+ */
+export function isValidityError(error: any): boolean {
+    return error instanceof ValidityError || error.name === 'ValidityError';
+}
+
+// Registry of error classes and predicates, which errors bypass masking
+const safeErrors: SafeErrorEntry[] = [{
+    classifier: ValidityError,
+    predicate: isValidityError
+}];
+
+/**
+ * Marks errors of a given class, or errors matching a given predicate,
+ * as safe to be exposed to the end user, even if wrapErrors is enabled
+ *
+ * @param {Function} classifier - error class or predicate function
+ */
+export function registerSafeError(classifier: Function) {
+    if (safeErrors.some(entry => entry.classifier === classifier)) {
+        return;
+    }
+
+    const isClass = classifier === Error ||
+        (classifier.prototype && classifier.prototype instanceof Error);
+
+    safeErrors.push({
+        classifier,
+        predicate: isClass ?
+            (error: any) => error instanceof classifier :
+            <SafeErrorPredicate>classifier
+    });
+}
+
+/**
+ * Removes error class or predicate from the list of safe errors
+ *
+ * @param {Function} classifier - error class or predicate function
+ */
+export function unregisterSafeError(classifier: Function) {
+    for (let i = safeErrors.length - 1; i >= 0; i--) {
+        if (safeErrors[i].classifier === classifier) {
+            safeErrors.splice(i, 1);
+        }
+    }
+}
+
+/**
+ * Checks whether error, or any error in its originalError chain,
+ * is classified as safe to be exposed to the end user
+ *
+ * @param error - error object to check
+ * @returns {boolean} - true if error can bypass masking
+ */
+export function isSafeError(error: any): boolean {
+    for (
+        let depth = 0;
+        error && typeof error === 'object' && depth < MAX_ERROR_CHAIN_DEPTH;
+        depth++
+    ) {
+        for (const entry of safeErrors) {
+            if (entry.predicate(error)) {
+                return true;
+            }
+        }
+
+        error = error.originalError;
+    }
+
+    return false;
+}
+
+/**
+ * Remembers safe error thrown by a field resolver, so it can be recognized
+ * after graphql serializes it to the response
+ *
+ * @param validity - an object injected to request at the beginning of the http call
+ * @param path - graphql response path of the field
+ * @param error - error thrown by the field resolver
+ */
+export function captureSafeError(validity: any, path: any, error: any) {
+    if (!validity || !isSafeError(error)) {
+        return;
+    }
+
+    validity.___safeErrors = validity.___safeErrors || [];
+    validity.___safeErrors.push({
+        path: pathToArray(path).join('.'),
+        message: error.message
+    });
+}
+
+/**
+ * Checks whether serialized graphql error was produced by a safe error
+ * previously captured for the same field
+ *
+ * @param validity - an object injected to request at the beginning of the http call
+ * @param error - graphql error object from the response
+ * @returns {boolean} - true if error can bypass masking
+ */
+export function isCapturedSafeError(validity: any, error: any): boolean {
+    if (!validity || !validity.___safeErrors || !Array.isArray(error.path)) {
+        return false;
+    }
+
+    const path = error.path.join('.');
+
+    return validity.___safeErrors.some((captured: any) =>
+        captured.path === path && captured.message === error.message
+    );
+}
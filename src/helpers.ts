@@ -24,6 +24,15 @@
 
 import { uuid } from './uuid';
 
+// Defines how failed validators affect field resolution:
+// 'report' - errors are added to the response, resolver is still executed
+// 'block' - errors are added to the response, resolver is skipped and field is nulled
+export declare type EnforcementMode = 'report' | 'block';
+
+// Defines how validators exceeding timeout are treated:
+// 'fail' reports timeout error, 'pass' ignores validator result
+export declare type TimeoutPolicy = 'fail' | 'pass';
+
 // Config options for graphql-validity library
 export declare type ValidityConfig = {
     // Allows to modify graphql error output to not show original error stack to the end user
@@ -34,6 +43,49 @@ export declare type ValidityConfig = {
     unhandledErrorWrapper?: (error: Error) => Error;
     // Function which will receive output, with profiling information for analysis
     profilingResultHandler?: (profilingResult: any) => void;
+    // Defines whether failed validators prevent resolver execution, 'report' by default
+    enforcementMode?: EnforcementMode;
+    // Wraps fields without resolver using graphql default field resolver,
+    // so validators are applied to plain property fields as well
+    wrapDefaultResolvers?: boolean;
+    // Extracts principal with roles and permissions from the request context,
+    // used by authorization rules, context.user by default
+    getPrincipal?: (context: any, info: any) => Principal | null | undefined;
+    // Maximal time in milliseconds a single async validator may take
+    validatorTimeout?: number;
+    // Maximal time in milliseconds all async validators of a field may take
+    fieldValidationTimeout?: number;
+    // Treatment of validators exceeding timeouts, 'fail' by default
+    timeoutPolicy?: TimeoutPolicy;
+    // Groups validation errors with the same message and extensions into a single
+    // error with count and paths of all occurrences in extensions
+    aggregateErrors?: boolean;
+    // Maximal number of errors in the response, the rest are replaced with a summary error
+    maxErrors?: number;
+    // Receives results of validators in audit mode, instead of adding them to the response
+    auditHandler?: (record: AuditRecord) => void;
+}
+
+// Result of validator in audit mode passed to the audit handler
+export declare type AuditRecord = {
+    // id of the request, __graphQLValidityRequestId of the request if set
+    requestId: string;
+    // path of the validated field, empty for operation validators
+    path: Array<string | number>;
+    // name of the validated field
+    fieldName?: string;
+    // name of the parent type of the validated field
+    parentTypeName?: string;
+    // validation result
+    error: any;
+}
+
+// Authenticated user or client checked by authorization rules
+export declare type Principal = {
+    // roles granted to the principal
+    roles?: string[];
+    // permissions granted to the principal
+    permissions?: string[];
 }
 
 // Type used inside the field wrapper function to store processing information
@@ -45,7 +97,13 @@ export declare type FieldValidationObject = {
     // validity object used for graphql request to store validation results
     validity?: any;
     // path inside the AST tree used by graphql engine
-    astPath?: string;
+    astPath?: any;
+    // AST nodes of the field being validated, used to locate errors in a query
+    fieldNodes?: any[];
+    // graphql resolve info of the field being validated
+    info?: any;
+    // validators executed after the field is resolved
+    outputValidators?: Function[];
     // profiling start time
     pst?: Number;
     // validation end time
@@ -54,12 +112,176 @@ export declare type FieldValidationObject = {
     eet?: Number;
 }
 
-// Error object, which must path through error masking
+// Severity of validation result, only 'error' results are added to the response errors
+export declare type Severity = 'error' | 'warning' | 'info';
+
+// Location of the field in a graphql query source
+export declare type SourceLocation = {
+    line: number;
+    column: number;
+}
+
+// Error object, which must pass through error masking
 export class ValidityError extends Error {
-    constructor(message: string) {
-        const resultingMessage = '_Validity_' + message;
-        super(resultingMessage);
+    // machine readable error code, output as extensions.code
+    public code?: string;
+    // any additional data output within the error extensions
+    public extensions?: { [key: string]: any };
+    // path of the field, which validator produced this error
+    public path?: Array<string | number>;
+    // locations of the field, which validator produced this error
+    public locations?: SourceLocation[];
+    // severity of the validation result
+    public severity: Severity = 'error';
+    // prevents field resolution regardless of the config enforcement mode
+    public blockResolution?: boolean;
+    // passes result to the audit handler instead of the response
+    public audit?: boolean;
+
+    constructor(
+        message: string,
+        code?: string,
+        extensions?: { [key: string]: any }
+    ) {
+        super(message);
         this.name = "ValidityError";
+        this.code = code;
+        this.extensions = code ?
+            Object.assign({}, extensions, { code }) :
+            extensions;
+    }
+}
+
+// Validation result, which is output along with data without failing the operation
+export class ValidityWarning extends ValidityError {
+    constructor(
+        message: string,
+        code?: string,
+        extensions?: { [key: string]: any }
+    ) {
+        super(message, code, extensions);
+        this.name = "ValidityWarning";
+        this.severity = 'warning';
+    }
+}
+
+// Informational validation result, output along with data
+export class ValidityInfo extends ValidityError {
+    constructor(
+        message: string,
+        code?: string,
+        extensions?: { [key: string]: any }
+    ) {
+        super(message, code, extensions);
+        this.name = "ValidityInfo";
+        this.severity = 'info';
+    }
+}
+
+/**
+ * Returns severity of the validation result, 'error' if not specified
+ *
+ * @param validationResult - validation result produced by validator
+ * @returns {Severity} - severity of the validation result
+ */
+export function getSeverity(validationResult: any): Severity {
+    return (validationResult && validationResult.severity) || 'error';
+}
+
+/**
+ * Returns named type, unwrapping list and non-null wrappers
+ *
+ * @param type - graphql type
+ * @returns {any} - named type
+ */
+export function getNamedType(type: any): any {
+    while (type && type.ofType) {
+        type = type.ofType;
+    }
+
+    return type;
+}
+
+/**
+ * Checks whether a given type is graphql input object type
+ *
+ * @param type - graphql type
+ * @returns {boolean}
+ */
+export function isInputObjectType(type: any): boolean {
+    return !!type && !!type.getFields &&
+        type.constructor && type.constructor.name === 'GraphQLInputObjectType';
+}
+
+/**
+ * Checks whether a given type is graphql scalar type
+ *
+ * @param type - graphql type
+ * @returns {boolean}
+ */
+export function isScalarType(type: any): boolean {
+    return !!type && !!type.name &&
+        type.constructor && type.constructor.name === 'GraphQLScalarType';
+}
+
+/**
+ * Returns name of the type, unwrapping list and non-null wrappers,
+ * so [User!]! results in User
+ *
+ * @param type - graphql type or its string representation
+ * @returns {string} - name of the named type
+ */
+export function getNamedTypeName(type: any): string {
+    type = getNamedType(type);
+
+    if (type && type.name) {
+        return type.name;
+    }
+
+    return String(type).replace(/[\[\]!]/g, '');
+}
+
+/**
+ * Checks whether type fields are resolved by graphql, interface and
+ * input object fields are never resolved, so they are not wrapped
+ *
+ * @param type - graphql type having fields
+ * @returns {boolean} - true if type fields have to be wrapped
+ */
+export function isResolvableType(type: any): boolean {
+    const typeName = type.constructor && type.constructor.name;
+
+    return typeName !== 'GraphQLInterfaceType' &&
+        typeName !== 'GraphQLInputObjectType';
+}
+
+/**
+ * Same as graphql default field resolver, returns property of the source object
+ * with the field name, or calls it if property is a function
+ *
+ * @param source - parent object of the field
+ * @param args - field arguments
+ * @param context - graphql execution context
+ * @param info - graphql field resolve info
+ * @returns {any} - field value
+ */
+export function defaultFieldResolver(
+    source: any,
+    args: any,
+    context: any,
+    info: any
+) {
+    if (
+        (typeof source === 'object' && source !== null) ||
+        typeof source === 'function'
+    ) {
+        const property = source[info.fieldName];
+
+        if (typeof property === 'function') {
+            return source[info.fieldName](args, context, info);
+        }
+
+        return property;
     }
 }
 
@@ -75,4 +297,73 @@ export function onUnhandledError(error: Error): Error {
     console.error(`Unhandled error occured with id:${id}, error:${JSON.stringify(error, null, 2)}`);
 
     return new Error(`An internal error occured, with following id:${id}, please contact Administrator!`)
-}
\ No newline at end of file
+}
+
+/**
+ * Converts graphql response path linked list into an array of keys
+ *
+ * @param path - graphql response path object, with prev and key properties
+ * @returns {Array<string | number>} - list of path keys starting from the root
+ */
+export function pathToArray(path: any): Array<string | number> {
+    const result: Array<string | number> = [];
+
+    while (path) {
+        result.unshift(path.key);
+        path = path.prev;
+    }
+
+    return result;
+}
+
+/**
+ * Calculates line and column of the AST nodes in the query source
+ *
+ * @param {any[]} nodes - graphql AST nodes with loc information
+ * @returns {SourceLocation[]} - list of locations, empty if nodes have no source info
+ */
+export function getLocations(nodes?: any[]): SourceLocation[] {
+    const locations: SourceLocation[] = [];
+
+    for (const node of nodes || []) {
+        if (!node || !node.loc || !node.loc.source) {
+            continue;
+        }
+
+        const lineRegexp = /\r\n|[\n\r]/g;
+        const body: string = node.loc.source.body;
+        const position: number = node.loc.start;
+        let line = 1;
+        let column = position + 1;
+        let match;
+
+        while ((match = lineRegexp.exec(body)) && match.index < position) {
+            line += 1;
+            column = position + 1 - (match.index + match[0].length);
+        }
+
+        locations.push({ line, column });
+    }
+
+    return locations;
+}
+
+/**
+ * Creates copy of the validation result with additional properties, so
+ * objects returned by validators, which might be shared, are never modified
+ *
+ * @param result - validation result returned by validator
+ * @param {Object} properties - properties to set on the copy
+ * @returns {any} - copy of the result, result itself if it is not an object
+ */
+export function copyResult(result: any, properties: { [key: string]: any }): any {
+    if (!result || typeof result !== 'object') {
+        return result;
+    }
+
+    const copy = Object.create(Object.getPrototypeOf(result));
+
+    Object.defineProperties(copy, Object.getOwnPropertyDescriptors(result));
+
+    return Object.assign(copy, properties);
+}
@@ -23,5 +23,91 @@
  */
 
 export * from './schema-wrapper';
-export { ValidityError } from './helpers';
-export { FieldValidationDefinitions } from './validation';
\ No newline at end of file
+export {
+    ValidityError,
+    ValidityWarning,
+    ValidityInfo,
+    Severity,
+    Principal,
+    TimeoutPolicy,
+    AuditRecord
+} from './helpers';
+export {
+    TOO_MANY_ERRORS,
+    VALIDATION_TIMEOUT
+} from './magic-values';
+export {
+    registerSafeError,
+    unregisterSafeError,
+    isSafeError,
+    SafeErrorPredicate
+} from './error-classification';
+export { FieldValidationDefinitions } from './validation';
+export {
+    ValidatorRegistry,
+    ValidatorTarget,
+    Validator,
+    ArgumentValidator,
+    ValidatorSelector,
+    RegisteredValidators
+} from './validator-registry';
+export {
+    lintValidity,
+    LintIssue,
+    LintIssueCode,
+    LintResult
+} from './lint';
+export {
+    rules,
+    RuleErrorCodes,
+    RuleOptions
+} from './rules';
+export {
+    validateDirectiveTypeDefs,
+    compileValidateDirective
+} from './directives';
+export {
+    OperationValidationContext,
+    OperationValidator
+} from './operation';
+export {
+    createComplexityValidator,
+    getOperationComplexity,
+    ComplexityErrorCodes,
+    ComplexityOptions,
+    OperationComplexity
+} from './complexity';
+export {
+    authorize,
+    requireRoles,
+    requirePermissions,
+    AuthorizationError,
+    AuthorizationGuard,
+    AuthorizationRule,
+    isAuthorizationGuard,
+    FORBIDDEN
+} from './authorization';
+export {
+    rateLimit,
+    MemoryRateLimitStore,
+    RateLimitError,
+    RateLimitOptions,
+    RateLimitStore,
+    RateLimitStrategy,
+    RateLimitUpdate,
+    RATE_LIMITED
+} from './rate-limit';
+export {
+    output,
+    OutputValidator,
+    OutputOptions
+} from './output';
+export { ValidationContext } from './validation-context';
+export {
+    memoize,
+    CacheKeyFunction
+} from './memoize';
+export {
+    audit,
+    defaultAuditHandler
+} from './audit';
@@ -0,0 +1,348 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    FieldTargets,
+    FieldValidationDefinitions,
+    getFieldTargets,
+    getValidators,
+    ValidationTargets
+} from "./validation";
+import { ValidatorRegistry } from "./validator-registry";
+import {
+    isInputObjectType,
+    isResolvableType,
+    isScalarType,
+    ValidityConfig
+} from "./helpers";
+import {
+    ARGUMENT_REGEXP,
+    OPERATION_KEY,
+    RETURN_TYPE_PREFIX
+} from "./magic-values";
+
+// Kind of the problem found in validator definitions
+export declare type LintIssueCode =
+    'UNKNOWN_TYPE' |
+    'UNKNOWN_FIELD' |
+    'UNKNOWN_ARGUMENT' |
+    'MISSING_RESOLVER' |
+    'UNGUARDED_MUTATION';
+
+// Problem found in validator definitions
+export declare type LintIssue = {
+    // kind of the problem
+    code: LintIssueCode;
+    // definition key, or Type:field of the unguarded mutation
+    key: string;
+    // human readable problem description
+    message: string;
+}
+
+// Result of validator definitions check against the schema
+export declare type LintResult = {
+    // list of problems found
+    issues: LintIssue[];
+    // fields coverage summary
+    coverage: {
+        // number of fields in schema object types
+        total: number;
+        // Type:field list of fields with validators applied
+        guarded: string[];
+        // Type:field list of fields without validators applied
+        unguarded: string[];
+    };
+}
+
+/**
+ * Returns object types of the schema, excluding introspection types
+ *
+ * @param schema - graphql schema
+ * @returns {any[]} - list of types having fields
+ */
+function getObjectTypes(schema: any): any[] {
+    const types = schema.getTypeMap();
+
+    return Object.keys(types)
+        .filter(name =>
+            name.indexOf('__') !== 0 &&
+            types[name].getFields &&
+            isResolvableType(types[name])
+        )
+        .map(name => types[name]);
+}
+
+/**
+ * Returns definition keys, which validators are applied to a given field,
+ * including argument, input type, input field and scalar keys of its arguments
+ *
+ * @param type - graphql object type
+ * @param field - field of the type
+ * @param {FieldTargets} targets - related abstract type names and input keys
+ * @returns {string[]} - list of definition keys
+ */
+function getFieldKeys(type: any, field: any, targets: FieldTargets): string[] {
+    const typeNames = [type.name].concat(targets.interfaceNames);
+    const keys = typeNames.concat(
+        targets.returnTypeNames.map(typeName => RETURN_TYPE_PREFIX + typeName),
+        typeNames.map(typeName => typeName + ':' + field.name)
+    );
+
+    for (const arg of field.args || []) {
+        keys.push(
+            ...typeNames.map(typeName => `${typeName}:${field.name}(${arg.name})`),
+            ...targets.inputKeys[arg.name]
+        );
+    }
+
+    return keys;
+}
+
+/**
+ * Checks whether types, fields and arguments of a definition key exist in the schema
+ *
+ * @param {string} key - definition key
+ * @param types - schema types by name
+ * @returns {LintIssue | undefined} - issue if key matches nothing in the schema
+ */
+function getUnknownKeyIssue(key: string, types: any): LintIssue | undefined {
+    if (key.indexOf(RETURN_TYPE_PREFIX) === 0) {
+        const typeName = key.slice(RETURN_TYPE_PREFIX.length);
+
+        if (!types[typeName]) {
+            return {
+                code: 'UNKNOWN_TYPE',
+                key,
+                message: `Type "${typeName}" is not found in the schema`
+            };
+        }
+
+        return;
+    }
+
+    const [typeName, fieldName] = key.split(':');
+    const type = types[typeName];
+
+    if (fieldName === undefined) {
+        if (!type || !(type.getFields || isScalarType(type))) {
+            return {
+                code: 'UNKNOWN_TYPE',
+                key,
+                message: `Type "${typeName}" is not found in the schema or is not a scalar or type with fields`
+            };
+        }
+
+        return;
+    }
+
+    if (!type || !type.getFields) {
+        return {
+            code: 'UNKNOWN_TYPE',
+            key,
+            message: `Type "${typeName}" is not found in the schema`
+        };
+    }
+
+    const argumentMatch = fieldName.match(ARGUMENT_REGEXP);
+    const field = type.getFields()[argumentMatch ? argumentMatch[1] : fieldName];
+    if (!field) {
+        return {
+            code: 'UNKNOWN_FIELD',
+            key,
+            message: `Field "${fieldName}" is not found on type "${typeName}"`
+        };
+    }
+
+    if (
+        argumentMatch &&
+        !(field.args || []).some((arg: any) => arg.name === argumentMatch[2])
+    ) {
+        return {
+            code: 'UNKNOWN_ARGUMENT',
+            key,
+            message: `Argument "${argumentMatch[2]}" is not found on field "${typeName}:${field.name}"`
+        };
+    }
+}
+
+/**
+ * Returns message of the issue for a key, which validators are never executed
+ *
+ * @param {string} key - definition key
+ * @param types - schema types by name
+ * @returns {string} - human readable problem description
+ */
+function getMissingResolverMessage(key: string, types: any): string {
+    const [typeName, fieldName] = key.split(':');
+    const type = types[typeName];
+
+    if (key.indexOf(RETURN_TYPE_PREFIX) === 0) {
+        return `No field returning "${key.slice(RETURN_TYPE_PREFIX.length)}" has a resolver, so validators are never executed`;
+    }
+
+    if (isScalarType(type) || isInputObjectType(type)) {
+        return `No field with resolver receives "${key}" values in arguments, so validators are never executed`;
+    }
+
+    if (fieldName === undefined) {
+        return `No field of type "${typeName}" has a resolver, so validators are never executed`;
+    }
+
+    const argumentMatch = fieldName.match(ARGUMENT_REGEXP);
+
+    return `Field "${typeName}:${argumentMatch ? argumentMatch[1] : fieldName}" has no resolver, so validators are never executed`;
+}
+
+/**
+ * Returns fields of the object type as a list
+ *
+ * @param type - graphql object type
+ * @returns {any[]} - list of fields
+ */
+function getTypeFields(type: any): any[] {
+    const fields = type.getFields();
+
+    return Object.keys(fields).map(name => fields[name]);
+}
+
+/**
+ * Returns mutation root type of the schema if any
+ *
+ * @param schema - graphql schema
+ * @returns {any} - mutation type or undefined
+ */
+function getMutationType(schema: any): any {
+    return schema.getMutationType ?
+        schema.getMutationType() :
+        schema.getTypeMap()['Mutation'];
+}
+
+/**
+ * Checks validator definitions against the schema and reports keys which
+ * match nothing, keys targeting fields without resolvers, mutations without
+ * validators and a summary of fields guarded by validators
+ *
+ * @param schema - graphql schema
+ * @param definitions - validator definitions object or registry
+ * @param {ValidityConfig} config - setup options used to wrap the schema
+ * @returns {LintResult} - found problems and coverage summary
+ */
+export function lintValidity(
+    schema: any,
+    definitions: any = FieldValidationDefinitions,
+    config?: ValidityConfig
+): LintResult {
+    const wrapDefaultResolvers = !!(config && config.wrapDefaultResolvers);
+
+    if (definitions instanceof ValidatorRegistry) {
+        definitions = definitions.definitions;
+    }
+
+    const types = schema.getTypeMap();
+    const objectTypes = getObjectTypes(schema);
+    const issues: LintIssue[] = [];
+    const guarded: string[] = [];
+    const unguarded: string[] = [];
+    // definition keys applied to fields, which resolvers are wrapped
+    const executed: { [key: string]: boolean } = {};
+
+    for (const type of objectTypes) {
+        for (const field of getTypeFields(type)) {
+            const targets = getFieldTargets(type, field);
+            const validators = getValidators(
+                {
+                    name: field.name,
+                    type: field.type,
+                    args: field.args,
+                    [ValidationTargets]: targets
+                },
+                type.name,
+                { ___globalValidationResultsCaptured: true },
+                definitions
+            );
+
+            if (field.resolve || wrapDefaultResolvers) {
+                for (const key of getFieldKeys(type, field, targets)) {
+                    executed[key] = true;
+                }
+            }
+
+            const key = type.name + ':' + field.name;
+            if ((field.resolve || wrapDefaultResolvers) && validators.length) {
+                guarded.push(key);
+            }
+            else {
+                unguarded.push(key);
+            }
+        }
+    }
+
+    for (const key of Object.keys(definitions)) {
+        if (
+            key === '$' ||
+            key === '*' ||
+            key === OPERATION_KEY ||
+            !(definitions[key] || []).length
+        ) {
+            continue;
+        }
+
+        const issue = getUnknownKeyIssue(key, types);
+
+        if (issue) {
+            issues.push(issue);
+        }
+        else if (!executed[key]) {
+            issues.push({
+                code: 'MISSING_RESOLVER',
+                key,
+                message: getMissingResolverMessage(key, types)
+            });
+        }
+    }
+
+    const mutationType = getMutationType(schema);
+    if (mutationType && mutationType.getFields) {
+        for (const field of getTypeFields(mutationType)) {
+            const key = mutationType.name + ':' + field.name;
+
+            if (unguarded.indexOf(key) >= 0) {
+                issues.push({
+                    code: 'UNGUARDED_MUTATION',
+                    key,
+                    message: `Mutation "${field.name}" has no validators`
+                });
+            }
+        }
+    }
+
+    return {
+        issues,
+        coverage: {
+            total: guarded.length + unguarded.length,
+            guarded,
+            unguarded
+        }
+    };
+}
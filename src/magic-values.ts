@@ -23,4 +23,19 @@
  */
 
 // Time delay for profiling to start batch and send responses to the analytics server
-export const PROFILING_DEBOUNCE_TIME = 1000;
\ No newline at end of file
+export const PROFILING_DEBOUNCE_TIME = 1000;
+
+// Prefix of validator definition keys applied to fields returning a given type
+export const RETURN_TYPE_PREFIX = '=>';
+
+// Field part of the argument validator definition key, e.g. createUser(email)
+export const ARGUMENT_REGEXP = /^([_A-Za-z][_0-9A-Za-z]*)\(([_A-Za-z][_0-9A-Za-z]*)\)$/;
+
+// Key of validators executed once per operation before any wrapped resolver
+export const OPERATION_KEY = '$operation';
+
+// Error code of async validators exceeding configured timeouts
+export const VALIDATION_TIMEOUT = 'VALIDATION_TIMEOUT';
+
+// Error code of the summary error replacing errors above configured limit
+export const TOO_MANY_ERRORS = 'TOO_MANY_ERRORS';
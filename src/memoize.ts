@@ -0,0 +1,90 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ValidationContext } from "./validation-context";
+import { OutputRule } from "./output";
+import { AuthorizationGuard } from "./authorization";
+
+// Returns key identifying validator results within the request,
+// receives the same arguments as the memoized validator
+export declare type CacheKeyFunction = (...args: any[]) => any;
+
+/**
+ * Returns request scoped cache of a validator
+ *
+ * @param {Function} validator - memoized validator
+ * @param {any[]} args - validator arguments
+ * @returns {Map<any, any> | undefined} - results by cache key, undefined outside of request
+ */
+function getValidatorCache(validator: Function, args: any[]) {
+    const validationContext = args.find(arg => arg instanceof ValidationContext);
+    const validity = validationContext && validationContext.validity;
+
+    if (!validity) {
+        return undefined;
+    }
+
+    const caches: Map<Function, Map<any, any>> =
+        validity.___memoizedResults = validity.___memoizedResults || new Map();
+
+    if (!caches.has(validator)) {
+        caches.set(validator, new Map());
+    }
+
+    return caches.get(validator);
+}
+
+/**
+ * Creates validator, which results are memoized within a request by a cache key,
+ * so it is executed once for all fields sharing the key, e.g. for all list items
+ * with the same owner. Memoized errors are output for each of the fields,
+ * aggregateErrors config option collapses them into a single error.
+ * Only returned results are memoized, messages reported through the validation
+ * context are not replayed for the fields hitting the cache
+ *
+ * @param {T} validator - field, argument or output validator
+ * @param {CacheKeyFunction} cacheKey - returns key of the validator results
+ * @returns {T} - memoized validator
+ */
+export function memoize<T extends Function>(validator: T, cacheKey: CacheKeyFunction): T {
+    const memoized: any = function (...args: any[]) {
+        const cache = getValidatorCache(memoized, args);
+
+        if (!cache) {
+            return validator.apply(this, args);
+        }
+
+        const key = cacheKey(...args);
+        if (!cache.has(key)) {
+            cache.set(key, validator.apply(this, args));
+        }
+
+        return cache.get(key);
+    };
+
+    memoized[OutputRule] = (<any>validator)[OutputRule];
+    memoized[AuthorizationGuard] = (<any>validator)[AuthorizationGuard];
+
+    return memoized;
+}
@@ -0,0 +1,80 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+// Operation data passed to operation validators
+export declare type OperationValidationContext = {
+    // document of the executed operation with its operation and fragment definitions
+    document: any;
+    // graphql AST node of the executed operation
+    operation: any;
+    // name of the executed operation, null for anonymous operations
+    operationName: string | null;
+    // 'query', 'mutation' or 'subscription'
+    operationType: string;
+    // operation variable values
+    variables: { [variableName: string]: any };
+    // executed graphql schema
+    schema: any;
+    // request passed as a root value
+    request: any;
+    // validity object injected to the request, used to store request scoped data
+    validity: any;
+    // graphql execution context
+    context: any;
+}
+
+// Validator of the whole operation, returns the same results as field validators,
+// any error result rejects the operation
+export declare type OperationValidator = (
+    operation: OperationValidationContext
+) => any;
+
+/**
+ * Builds operation validation context from the resolve info of the first resolved field
+ *
+ * @param info - graphql resolve info
+ * @param context - graphql execution context
+ * @returns {OperationValidationContext} - operation data for operation validators
+ */
+export function getOperationContext(info: any, context: any): OperationValidationContext {
+    const operation = info.operation || {};
+    const fragments = info.fragments || {};
+
+    return {
+        document: {
+            kind: 'Document',
+            definitions: [operation].concat(
+                Object.keys(fragments).map(name => fragments[name])
+            )
+        },
+        operation,
+        operationName: operation.name ? operation.name.value : null,
+        operationType: operation.operation,
+        variables: info.variableValues || {},
+        schema: info.schema,
+        request: info.rootValue,
+        validity: info.rootValue && info.rootValue.__graphQLValidity,
+        context
+    };
+}
@@ -0,0 +1,100 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { copyResult, getSeverity } from "./helpers";
+import { ValidationContext } from "./validation-context";
+
+// Validator of the resolved field value, returns the same results as field validators
+export declare type OutputValidator = (
+    value: any,
+    context: any,
+    info: any,
+    validationContext?: ValidationContext
+) => any;
+
+// Options of the output validator
+export declare type OutputOptions = {
+    // replaces resolved value with null if validator returns any error,
+    // regardless of the config enforcement mode
+    nullOnError?: boolean;
+}
+
+// Marks validator functions executed after the field is resolved
+export const OutputRule = Symbol('OutputRule');
+
+/**
+ * Marks errors as blocking, so resolved value is replaced with null
+ *
+ * @param result - validation result or list of results
+ * @returns {any} - copies of the validation results
+ */
+function blockResults(result: any) {
+    const block = (error: any) => error && typeof error === 'object' &&
+        getSeverity(error) === 'error' ?
+            copyResult(error, { blockResolution: true }) :
+            error;
+
+    return Array.isArray(result) ? result.map(block) : block(result);
+}
+
+/**
+ * Creates output validator, which is executed after the field is resolved and
+ * receives the resolved value, could be registered under any definition key
+ *
+ * @param {OutputValidator} validator - validator of the resolved value
+ * @param {OutputOptions} options - output validator options
+ * @returns {OutputValidator} - marked validator function
+ */
+export function output(validator: OutputValidator, options: OutputOptions = {}): OutputValidator {
+    const rule: any = function (
+        value: any,
+        context: any,
+        info: any,
+        validationContext?: ValidationContext
+    ) {
+        const result = validator(value, context, info, validationContext);
+
+        if (!options.nullOnError) {
+            return result;
+        }
+
+        return result && result.then ?
+            result.then(blockResults) :
+            blockResults(result);
+    };
+
+    rule[OutputRule] = true;
+
+    return rule;
+}
+
+/**
+ * Checks whether validator is executed after the field is resolved
+ *
+ * @param {Function} validator - validator function
+ * @returns {boolean}
+ */
+export function isOutputValidator(validator: any): boolean {
+    return !!validator && !!validator[OutputRule];
+}
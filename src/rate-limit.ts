@@ -0,0 +1,255 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ValidityError } from "./helpers";
+import { Validator } from "./validator-registry";
+
+// Algorithm used to count requests
+export declare type RateLimitStrategy = 'fixed-window' | 'token-bucket';
+
+// New state of a counter key computed by the rate limit rule
+export declare type RateLimitUpdate = {
+    // new state of the key to be stored
+    state: any;
+    // milliseconds to keep the state
+    ttl: number;
+}
+
+// Storage of rate limit counters, may be asynchronous, e.g. backed by redis
+export declare type RateLimitStore = {
+    // atomically passes stored state of a key, undefined if missing or expired,
+    // to the updater, stores the state it returns for its ttl and returns its result
+    update<T extends RateLimitUpdate>(
+        key: string,
+        updater: (state: any) => T
+    ): T | Promise<T>;
+}
+
+// Options of the rate limit rule
+export declare type RateLimitOptions = {
+    // number of requests allowed per window, or token bucket capacity
+    limit: number;
+    // window length, or time to refill the whole bucket, in milliseconds
+    window: number;
+    // 'fixed-window' by default
+    strategy?: RateLimitStrategy;
+    // storage of counters, in memory store shared by all rules by default,
+    // rules are told apart by strategy, limit and window in the counter keys
+    store?: RateLimitStore;
+    // returns identity of the client from the request passed as a root value,
+    // request ip is used by default
+    identify?: (request: any, context: any, info: any) => string;
+    // custom error message
+    message?: string;
+}
+
+// Result of the request counting
+declare type RateLimitResult = RateLimitUpdate & {
+    // whether request is allowed
+    allowed: boolean;
+    // milliseconds until the next request is allowed
+    retryAfter: number;
+}
+
+// Error code of rate limit denials
+export const RATE_LIMITED = 'RATE_LIMITED';
+
+// Rate limit denial, which always blocks field resolution
+export class RateLimitError extends ValidityError {
+    constructor(message: string, extensions?: { [key: string]: any }) {
+        super(message, RATE_LIMITED, extensions);
+        this.name = "RateLimitError";
+        this.blockResolution = true;
+    }
+}
+
+// Rate limit store keeping counters in the process memory,
+// expired counters are swept on updates once per sweep interval
+export class MemoryRateLimitStore {
+    private entries = new Map<string, { state: any, expiresAt: number }>();
+    private sweptAt = Date.now();
+
+    /**
+     * @param {number} sweepInterval - milliseconds between sweeps of expired counters
+     */
+    constructor(private sweepInterval: number = 60000) {
+    }
+
+    /**
+     * Number of stored counters, including expired ones not swept yet
+     *
+     * @returns {number}
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Passes stored state of a key to the updater and stores the new state
+     *
+     * @param {string} key - counter key
+     * @param {Function} updater - computes new state from the stored one
+     * @returns {T} - updater result
+     */
+    update<T extends RateLimitUpdate>(key: string, updater: (state: any) => T): T {
+        const now = Date.now();
+
+        if (now - this.sweptAt >= this.sweepInterval) {
+            this.sweep(now);
+        }
+
+        const entry = this.entries.get(key);
+        const result = updater(entry && entry.expiresAt > now ? entry.state : undefined);
+
+        this.entries.set(key, { state: result.state, expiresAt: now + result.ttl });
+
+        return result;
+    }
+
+    /**
+     * Removes expired counters
+     *
+     * @param {number} now - current timestamp
+     */
+    private sweep(now: number) {
+        this.sweptAt = now;
+
+        this.entries.forEach((entry, key) => {
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+            }
+        });
+    }
+}
+
+// Store used by rules without their own store
+const defaultStore = new MemoryRateLimitStore();
+
+/**
+ * Counts request within a fixed time window
+ *
+ * @param state - stored window state
+ * @param {RateLimitOptions} options - rate limit options
+ * @param {number} now - current timestamp
+ * @returns {RateLimitResult}
+ */
+function fixedWindow(state: any, options: RateLimitOptions, now: number): RateLimitResult {
+    if (!state || state.resetAt <= now) {
+        state = { count: 0, resetAt: now + options.window };
+    }
+
+    const allowed = state.count < options.limit;
+    if (allowed) {
+        state = { count: state.count + 1, resetAt: state.resetAt };
+    }
+
+    return {
+        state,
+        allowed,
+        retryAfter: allowed ? 0 : state.resetAt - now,
+        ttl: state.resetAt - now
+    };
+}
+
+/**
+ * Takes a token from the bucket, refilled evenly during the window
+ *
+ * @param state - stored bucket state
+ * @param {RateLimitOptions} options - rate limit options
+ * @param {number} now - current timestamp
+ * @returns {RateLimitResult}
+ */
+function tokenBucket(state: any, options: RateLimitOptions, now: number): RateLimitResult {
+    const rate = options.limit / options.window;
+    const tokens = state ?
+        Math.min(options.limit, state.tokens + (now - state.updatedAt) * rate) :
+        options.limit;
+
+    const allowed = tokens >= 1;
+
+    return {
+        state: { tokens: allowed ? tokens - 1 : tokens, updatedAt: now },
+        allowed,
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+        ttl: options.window
+    };
+}
+
+/**
+ * Returns client identity from the request
+ *
+ * @param request - request passed as a root value
+ * @returns {string} - client ip or 'anonymous'
+ */
+function getRequestIp(request: any): string {
+    return (request && (
+        request.ip ||
+        (request.info && request.info.remoteAddress) ||
+        (request.connection && request.connection.remoteAddress)
+    )) || 'anonymous';
+}
+
+/**
+ * Creates validator, which limits the number of field resolutions per client.
+ * Denials are reported with retryAfter seconds in the error extensions
+ *
+ * @param {RateLimitOptions} options - rate limit options
+ * @returns {Validator} - validator to be registered for a type or field
+ */
+export function rateLimit(options: RateLimitOptions): Validator {
+    const store = options.store || defaultStore;
+    const strategy = options.strategy || 'fixed-window';
+    const count = strategy === 'token-bucket' ? tokenBucket : fixedWindow;
+    const identify = options.identify ||
+        ((request: any) => getRequestIp(request));
+
+    return function (parent: any, args: any, context: any, info: any) {
+        const key = [
+            'rate-limit',
+            strategy,
+            options.limit,
+            options.window,
+            info && info.parentType,
+            info && info.fieldName,
+            identify(info && info.rootValue, context, info)
+        ].join(':');
+        const now = Date.now();
+
+        const complete = (result: RateLimitResult) => {
+            if (result.allowed) {
+                return [];
+            }
+
+            const retryAfter = Math.ceil(result.retryAfter / 1000);
+
+            return [new RateLimitError(
+                options.message || `Rate limit exceeded, retry in ${retryAfter} seconds`,
+                { retryAfter, limit: options.limit }
+            )];
+        };
+        const result: any = store.update(key, state => count(state, options, now));
+
+        return result && result.then ? result.then(complete) : complete(result);
+    };
+}
@@ -0,0 +1,318 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { ValidityError } from "./helpers";
+import { ArgumentValidator } from "./validator-registry";
+import { isUuid } from "./uuid";
+
+// Options common for all rules
+export declare type RuleOptions = {
+    // custom error message
+    message?: string;
+    // custom error code
+    code?: string;
+}
+
+// Error codes produced by built-in rules
+export const RuleErrorCodes = {
+    TOO_SMALL: 'VALUE_TOO_SMALL',
+    TOO_LARGE: 'VALUE_TOO_LARGE',
+    TOO_SHORT: 'VALUE_TOO_SHORT',
+    TOO_LONG: 'VALUE_TOO_LONG',
+    PATTERN: 'PATTERN_MISMATCH',
+    ONE_OF: 'VALUE_NOT_ALLOWED',
+    EMAIL: 'INVALID_EMAIL',
+    URL: 'INVALID_URL',
+    UUID: 'INVALID_UUID',
+    DATE: 'INVALID_DATE',
+    TOO_EARLY: 'DATE_TOO_EARLY',
+    TOO_LATE: 'DATE_TOO_LATE'
+};
+
+const EMAIL_REGEXP = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_REGEXP = /^(https?|ftp):\/\/[^\s/$.?#][^\s]*$/i;
+
+/**
+ * Creates rule validator, which skips null and undefined values,
+ * as their presence is checked by graphql itself
+ *
+ * @param {(value: any) => boolean} isValid - value check
+ * @param {string} message - default error message
+ * @param {string} code - default error code
+ * @param extensions - additional error data
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator} - validator function
+ */
+function createRule(
+    isValid: (value: any) => boolean,
+    message: string,
+    code: string,
+    extensions: { [key: string]: any },
+    options: RuleOptions = {}
+): ArgumentValidator {
+    return function (value: any) {
+        if (value === null || value === undefined || isValid(value)) {
+            return [];
+        }
+
+        return [new ValidityError(
+            options.message || message,
+            options.code || code,
+            extensions
+        )];
+    };
+}
+
+/**
+ * Converts a given value to timestamp
+ *
+ * @param value - date, date string or timestamp
+ * @returns {number} - timestamp, NaN if value is not a date
+ */
+function toTime(value: any): number {
+    return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+/**
+ * Number must be greater or equal to the limit
+ *
+ * @param {number} limit - minimal value
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function min(limit: number, options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => value >= limit,
+        `Value must be greater than or equal to ${limit}`,
+        RuleErrorCodes.TOO_SMALL,
+        { min: limit },
+        options
+    );
+}
+
+/**
+ * Number must be less or equal to the limit
+ *
+ * @param {number} limit - maximal value
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function max(limit: number, options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => value <= limit,
+        `Value must be less than or equal to ${limit}`,
+        RuleErrorCodes.TOO_LARGE,
+        { max: limit },
+        options
+    );
+}
+
+/**
+ * String or list length must be within the limits
+ *
+ * @param options - min and max length along with rule options
+ * @returns {ArgumentValidator}
+ */
+function length(
+    options: { min?: number, max?: number } & RuleOptions
+): ArgumentValidator {
+    const checks: ArgumentValidator[] = [];
+
+    if (options.min !== undefined) {
+        checks.push(createRule(
+            value => value.length >= <number>options.min,
+            `Length must be at least ${options.min}`,
+            RuleErrorCodes.TOO_SHORT,
+            { min: options.min },
+            options
+        ));
+    }
+
+    if (options.max !== undefined) {
+        checks.push(createRule(
+            value => value.length <= <number>options.max,
+            `Length must be at most ${options.max}`,
+            RuleErrorCodes.TOO_LONG,
+            { max: options.max },
+            options
+        ));
+    }
+
+    return function (value: any, context: any, info: any) {
+        return [].concat(...checks.map(check => check(value, context, info)));
+    };
+}
+
+/**
+ * String must match the regular expression
+ *
+ * @param {RegExp} regexp - regular expression to match
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function pattern(regexp: RegExp, options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => {
+            regexp.lastIndex = 0;
+            return regexp.test(String(value));
+        },
+        `Value must match ${regexp}`,
+        RuleErrorCodes.PATTERN,
+        { pattern: String(regexp) },
+        options
+    );
+}
+
+/**
+ * Value must be one of the allowed values
+ *
+ * @param {any[]} values - allowed values
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function oneOf(values: any[], options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => values.indexOf(value) >= 0,
+        `Value must be one of: ${values.join(', ')}`,
+        RuleErrorCodes.ONE_OF,
+        { values },
+        options
+    );
+}
+
+/**
+ * String must be an email address
+ *
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function email(options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => typeof value === 'string' && EMAIL_REGEXP.test(value),
+        'Value must be a valid email address',
+        RuleErrorCodes.EMAIL,
+        {},
+        options
+    );
+}
+
+/**
+ * String must be an absolute http, https or ftp URL
+ *
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function url(options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        value => typeof value === 'string' && URL_REGEXP.test(value),
+        'Value must be a valid URL',
+        RuleErrorCodes.URL,
+        {},
+        options
+    );
+}
+
+/**
+ * String must be a UUID
+ *
+ * @param {RuleOptions} options - rule options
+ * @returns {ArgumentValidator}
+ */
+function uuid(options?: RuleOptions): ArgumentValidator {
+    return createRule(
+        isUuid,
+        'Value must be a valid UUID',
+        RuleErrorCodes.UUID,
+        {},
+        options
+    );
+}
+
+/**
+ * Value must be a valid date within optional limits
+ *
+ * @param options - min and max dates along with rule options
+ * @returns {ArgumentValidator}
+ */
+function date(
+    options: { min?: Date | string | number, max?: Date | string | number } & RuleOptions = {}
+): ArgumentValidator {
+    for (const option of ['min', 'max']) {
+        const limit = (<any>options)[option];
+
+        if (limit !== undefined && isNaN(toTime(limit))) {
+            throw new TypeError(`Invalid date "${limit}" passed as ${option} option of date rule`);
+        }
+    }
+
+    const checks: ArgumentValidator[] = [createRule(
+        value => !isNaN(toTime(value)),
+        'Value must be a valid date',
+        RuleErrorCodes.DATE,
+        {},
+        options
+    )];
+
+    if (options.min !== undefined) {
+        const minTime = toTime(options.min);
+
+        checks.push(createRule(
+            value => isNaN(toTime(value)) || toTime(value) >= minTime,
+            `Date must not be earlier than ${new Date(minTime).toISOString()}`,
+            RuleErrorCodes.TOO_EARLY,
+            { min: new Date(minTime).toISOString() },
+            options
+        ));
+    }
+
+    if (options.max !== undefined) {
+        const maxTime = toTime(options.max);
+
+        checks.push(createRule(
+            value => isNaN(toTime(value)) || toTime(value) <= maxTime,
+            `Date must not be later than ${new Date(maxTime).toISOString()}`,
+            RuleErrorCodes.TOO_LATE,
+            { max: new Date(maxTime).toISOString() },
+            options
+        ));
+    }
+
+    return function (value: any, context: any, info: any) {
+        return [].concat(...checks.map(check => check(value, context, info)));
+    };
+}
+
+// Built-in validators for common value checks, which can be used
+// for argument validators, e.g. 'Mutation:createUser(email)'
+export const rules = {
+    min,
+    max,
+    length,
+    pattern,
+    oneOf,
+    email,
+    url,
+    uuid,
+    date
+};
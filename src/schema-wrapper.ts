@@ -26,18 +26,46 @@
  * Contains configuration options for the main function
  */
 import {
+    copyResult,
+    defaultFieldResolver,
     FieldValidationObject,
+    getLocations,
+    getSeverity,
+    isInputObjectType,
+    isResolvableType,
     onUnhandledError,
-    ValidityConfig
+    pathToArray,
+    ValidityConfig,
+    ValidityError
 } from "./helpers";
+import { captureSafeError } from "./error-classification";
+import {
+    AuthorizationError,
+    isAuthorizationGuard
+} from "./authorization";
+import { processAuditResults } from "./audit";
+import { getDirectiveValidators } from "./directives";
+import { getOperationContext } from "./operation";
+import {
+    isOutputValidator,
+    output
+} from "./output";
+import {
+    OPERATION_KEY,
+    VALIDATION_TIMEOUT
+} from "./magic-values";
 import {
     defaultProfilingResultHandler,
     storeProfilingInfo
 } from "./profiling";
 import {
+    FieldValidationDefinitions,
+    getFieldTargets,
     getValidationResults,
-    getValidators
+    ValidationTargets
 } from "./validation";
+import { ValidatorRegistry } from "./validator-registry";
+import { ValidationContext } from "./validation-context";
 
 import hapiMiddleware from './hapi-middleware';
 import expressMiddleware from './express-middleware';
@@ -46,14 +74,81 @@ import koaMiddleware from './koa-middleware';
 // Indicates whether schema entity was already processed
 export const Processed = Symbol();
 
-let profilingResultHandler: any = {
-    handler: defaultProfilingResultHandler
-};
+// Indicates whether @validate directives of schema entity were already registered,
+// fields without resolvers are never processed, but their directives are registered once
+export const DirectivesRegistered = Symbol();
+
+// Indicates whether missing request validity state was reported for a guarded field
+const UnenforcedReported = Symbol();
+
+// Isolated set of validator definitions, schema wrapper and middleware functions
+export declare type ValidityInstance = {
+    // validator functions used by this instance only
+    FieldValidationDefinitions: any;
+    // typed API to register validator functions of this instance
+    validatorRegistry: ValidatorRegistry;
+    // wraps resolvers of a given schema entity with validators of this instance
+    wrapResolvers: (entity: any, config?: ValidityConfig) => void;
+    // set of middleware functions for express, koa and hapi servers
+    graphQLValidityHapiMiddleware: (server: any) => void;
+    graphQLValidityExpressMiddleware: (req: any, res: any, next: any) => void;
+    graphQLValidityKoaMiddleware: (ctx: any, next: (...args: any[]) => any) => Promise<void>;
+}
+
+/**
+ * Creates graphql-validity instance, which has its own validator definitions,
+ * profiling result handler and middleware functions, so several schemas
+ * can be validated independently within the same process
+ *
+ * @param {ValidityConfig} config - default setup options for the instance wrapper function
+ * @returns {ValidityInstance} - isolated graphql-validity instance
+ */
+export function createValidity(config?: ValidityConfig): ValidityInstance {
+    return buildValidity({}, config);
+}
+
+/**
+ * Builds graphql-validity instance around a given validator definitions object
+ *
+ * @param definitions - object which stores validator functions of the instance
+ * @param {ValidityConfig} defaultConfig - default setup options for the wrapper function
+ * @returns {ValidityInstance} - graphql-validity instance
+ */
+function buildValidity(
+    definitions: any,
+    defaultConfig?: ValidityConfig
+): ValidityInstance {
+    const profilingResultHandler: any = {
+        handler: defaultProfilingResultHandler
+    };
+    const registry = new ValidatorRegistry(definitions);
+
+    return {
+        FieldValidationDefinitions: definitions,
+        validatorRegistry: registry,
+        wrapResolvers(entity: any, config?: ValidityConfig) {
+            wrapEntity(
+                entity,
+                prepareConfig(config || defaultConfig, profilingResultHandler),
+                registry
+            );
+        },
+        graphQLValidityHapiMiddleware: hapiMiddleware(profilingResultHandler),
+        graphQLValidityExpressMiddleware: expressMiddleware(profilingResultHandler),
+        graphQLValidityKoaMiddleware: koaMiddleware(profilingResultHandler)
+    };
+}
+
+// Default instance, using globally exported validator definitions
+const defaultValidity = buildValidity(FieldValidationDefinitions);
+
+// Typed API to register validator functions of the default instance
+export const validatorRegistry = defaultValidity.validatorRegistry;
 
 // Set of middleware functions for express, koa and hapi servers
-export const graphQLValidityHapiMiddleware = hapiMiddleware(profilingResultHandler);
-export const graphQLValidityExpressMiddleware = expressMiddleware(profilingResultHandler);
-export const graphQLValidityKoaMiddleware = koaMiddleware(profilingResultHandler);
+export const graphQLValidityHapiMiddleware = defaultValidity.graphQLValidityHapiMiddleware;
+export const graphQLValidityExpressMiddleware = defaultValidity.graphQLValidityExpressMiddleware;
+export const graphQLValidityKoaMiddleware = defaultValidity.graphQLValidityKoaMiddleware;
 
 /**
  * Top level wrapper for the GraphQL schema entities
@@ -63,28 +158,53 @@ export const graphQLValidityKoaMiddleware = koaMiddleware(profilingResultHandler
  * @param {ValidityConfig} config - setup options for the wrapper function
  */
 export function wrapResolvers(entity: any, config?: ValidityConfig) {
+    defaultValidity.wrapResolvers(entity, config);
+}
+
+/**
+ * Fills config with default options and applies profiling result handler
+ *
+ * @param {ValidityConfig} config - setup options for the wrapper function
+ * @param profilingResultHandler - profiling handler holder of the instance
+ * @returns {ValidityConfig} - config ready to be used by wrapper function
+ */
+function prepareConfig(
+    config: ValidityConfig | undefined,
+    profilingResultHandler: any
+): ValidityConfig {
     if (!config) {
-        config = {
+        return {
             wrapErrors: false,
             enableProfiling: false,
             unhandledErrorWrapper: onUnhandledError
-        }
+        };
     }
-    else {
-        config.unhandledErrorWrapper = config.unhandledErrorWrapper
-            || onUnhandledError;
 
-        if (config.enableProfiling) {
-            profilingResultHandler.handler = config.profilingResultHandler ?
-                config.profilingResultHandler : profilingResultHandler.handler;
-        }
+    config.unhandledErrorWrapper = config.unhandledErrorWrapper
+        || onUnhandledError;
+
+    if (config.enableProfiling) {
+        profilingResultHandler.handler = config.profilingResultHandler ?
+            config.profilingResultHandler : profilingResultHandler.handler;
     }
+
+    return config;
+}
+
+/**
+ * Wraps resolvers of a given schema, type or field
+ *
+ * @param entity - GraphQL object entity
+ * @param {ValidityConfig} config - setup options for the wrapper function
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ */
+function wrapEntity(entity: any, config: ValidityConfig, registry: ValidatorRegistry) {
     if (entity.constructor.name === 'GraphQLSchema') {
-        wrapSchema(entity, config);
+        wrapSchema(entity, config, registry);
     } else if (entity.constructor.name === 'GraphQLObjectType') {
-        wrapType(entity, config);
+        wrapType(entity, config, registry);
     } else {
-        wrapField(entity, config);
+        wrapField(entity, config, registry);
     }
 }
 
@@ -93,19 +213,22 @@ export function wrapResolvers(entity: any, config?: ValidityConfig) {
  *
  * @param field - GraphQL entity field
  * @param {ValidityConfig} config - setup options for the wrapper function
+ * @param {ValidatorRegistry} registry - registry of validator functions
  */
 function wrapField(
     field: any,
-    config: ValidityConfig
+    config: ValidityConfig,
+    registry: ValidatorRegistry
 ) {
-    const resolve = field.resolve;
+    const resolve = field.resolve ||
+        (config.wrapDefaultResolvers ? defaultFieldResolver : undefined);
     if (field[Processed] || !resolve) {
         return;
     }
 
     field[Processed] = true;
 
-    field.resolve = validateFieldResolution(field, config, resolve);
+    field.resolve = validateFieldResolution(field, config, resolve, registry);
 }
 
 /**
@@ -114,13 +237,15 @@ function wrapField(
  * @param field - field node which gets resolver replaced
  * @param {ValidityConfig} config - config options for validation
  * @param {Function} resolver - original resolver function
+ * @param {ValidatorRegistry} registry - registry of validator functions
  *
  * @returns {(...args: any[]) => (Promise<any> | any)} - new resolver function
  */
 function validateFieldResolution(
     field: any,
     config: ValidityConfig,
-    resolver: Function
+    resolver: Function,
+    registry: ValidatorRegistry
 ) {
     return function (...args: any[]) {
         const requestContext: FieldValidationObject = { fieldName: field.name };
@@ -139,72 +264,413 @@ function validateFieldResolution(
 
             if (arg && arg.parentType) {
                 requestContext.astPath = arg.path;
+                requestContext.fieldNodes = arg.fieldNodes;
                 requestContext.parentTypeName = arg.parentType;
+                requestContext.info = arg;
             }
         }
 
-        if (requestContext.validity) {
-            let validationResults = getValidationResults(requestContext.validity);
-            let validators = getValidators(
+        const rejected = requestContext.validity ?
+            validateOperation(registry, config, requestContext, args) : false;
+
+        if (rejected === true) {
+            return null;
+        }
+
+        if (rejected && rejected.then) {
+            return rejected.then((rejected: boolean) => rejected ? null :
+                resolveField(this, field, config, resolver, registry, args, requestContext)
+            );
+        }
+
+        return resolveField(this, field, config, resolver, registry, args, requestContext);
+    };
+}
+
+/**
+ * Runs operation validators once per request, before any wrapped resolver
+ * is executed, and marks the request as rejected if any error is produced
+ *
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ * @param {ValidityConfig} config - config options for validation
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ * @param {any[]} args - original resolver arguments
+ *
+ * @returns {boolean | Promise<boolean>} - true if operation is rejected
+ */
+function validateOperation(
+    registry: ValidatorRegistry,
+    config: ValidityConfig,
+    requestContext: FieldValidationObject,
+    args: any[]
+): any {
+    const validity = requestContext.validity;
+
+    if (validity.___operationValidation !== undefined) {
+        return validity.___operationValidation;
+    }
+
+    const validators = registry.definitions[OPERATION_KEY] || [];
+    if (!validators.length || !requestContext.info) {
+        validity.___operationValidation = false;
+        return false;
+    }
+
+    const operationContext = getOperationContext(requestContext.info, args[2]);
+    const operationResults: any[] = [];
+    const complete = () => {
+        processAuditResults(operationResults, <FieldValidationObject>{
+            validity,
+            info: requestContext.info
+        }, config);
+
+        const locations = getLocations([operationContext.operation]);
+
+        operationResults.forEach((error, index) => {
+            if (error && typeof error === 'object' && !error.locations && locations.length) {
+                operationResults[index] = copyResult(error, { locations });
+            }
+        });
+
+        Array.prototype.push.apply(getValidationResults(validity), operationResults);
+        validity.___operationRejected =
+            operationResults.some(result => getSeverity(result) === 'error');
+        validity.___operationValidation = validity.___operationRejected;
+
+        return validity.___operationRejected;
+    };
+
+    const result = processValidators(validators, operationResults, [operationContext], config);
+    if (result && result.then) {
+        validity.___operationValidation = result.then(complete);
+        return validity.___operationValidation;
+    }
+
+    return complete();
+}
+
+/**
+ * Validates field and executes the original resolver
+ *
+ * @param context - this object of the original resolver call
+ * @param field - field node which gets resolver replaced
+ * @param {ValidityConfig} config - config options for validation
+ * @param {Function} resolver - original resolver function
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ * @param {any[]} args - original resolver arguments
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ *
+ * @returns {any} - resolver result, or a promise if any validator is async
+ */
+function resolveField(
+    context: any,
+    field: any,
+    config: ValidityConfig,
+    resolver: Function,
+    registry: ValidatorRegistry,
+    args: any[],
+    requestContext: FieldValidationObject
+) {
+    try {
+        if (!requestContext.validity) {
+            assertAuthorizationEnforced(field, registry, requestContext);
+        }
+
+        const validators = requestContext.validity ?
+            registry.getValidators(
                 field,
                 String(requestContext.parentTypeName),
                 requestContext.validity
-            );
+            ) : [];
 
-            const result = processValidators(validators, validationResults, args);
-            if (result && result.then) {
-                return new Promise((
-                    resolve: Function,
-                    reject: Function
-                ) => {
-                    result.then(() => {
-                        if (config.enableProfiling) {
-                            // validation end time
-                            requestContext.vet = Date.now();
-                        }
-
-                        const result = resolver.apply(this, args);
-
-                        if (config.enableProfiling) {
-                            if (result && result.then) {
-                                result.then(() => {
-                                    processProfiling(requestContext);
-                                })
-                            }
-                            else {
-                                processProfiling(requestContext);
-                            }
-                        }
-
-                        resolve(result);
-                    }).catch(e => {
-                        reject(e);
-                    });
-                });
-            }
-            else {
-                if (config.enableProfiling) {
-                    // validation end time
-                    requestContext.vet = Date.now();
-                }
-            }
+        requestContext.outputValidators = validators.filter(isOutputValidator);
+
+        const result = processFieldResolution(
+            context,
+            validators.filter(validator => !isOutputValidator(validator)),
+            config,
+            resolver,
+            args,
+            requestContext
+        );
+
+        if (requestContext.validity && result && result.then) {
+            return result.then(null, (err: any) => {
+                captureSafeError(requestContext.validity, requestContext.astPath, err);
+                throw err;
+            });
         }
 
-        const result = resolver.apply(this, args);
+        return result;
+    }
+    catch (err) {
+        captureSafeError(requestContext.validity, requestContext.astPath, err);
+        throw err;
+    }
+}
 
+/**
+ * Fails closed if field is guarded by authorization rules, but request has no
+ * validity state, e.g. if middleware is not mounted, so rules can not be executed
+ *
+ * @param field - field node which gets resolver replaced
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ */
+function assertAuthorizationEnforced(
+    field: any,
+    registry: ValidatorRegistry,
+    requestContext: FieldValidationObject
+) {
+    const guarded = registry.getValidators(
+        field,
+        String(requestContext.parentTypeName),
+        { ___globalValidationResultsCaptured: true }
+    ).some(isAuthorizationGuard);
+
+    if (!guarded) {
+        return;
+    }
+
+    if (!field[UnenforcedReported]) {
+        field[UnenforcedReported] = true;
+        console.error(
+            `Field "${requestContext.parentTypeName}:${field.name}" has authorization rules, ` +
+            'but is resolved without graphql-validity middleware, access is denied'
+        );
+    }
+
+    throw new AuthorizationError('Not authorized to access this field');
+}
+
+/**
+ * Runs field validators and executes the original resolver
+ *
+ * @param context - this object of the original resolver call
+ * @param {Function[]} validators - validator functions applied to the field
+ * @param {ValidityConfig} config - config options for validation
+ * @param {Function} resolver - original resolver function
+ * @param {any[]} args - original resolver arguments
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ *
+ * @returns {any} - resolver result, or a promise if any validator is async
+ */
+function processFieldResolution(
+    context: any,
+    validators: Function[],
+    config: ValidityConfig,
+    resolver: Function,
+    args: any[],
+    requestContext: FieldValidationObject
+) {
+    if (!requestContext.validity) {
+        return executeResolver(context, requestContext, config, resolver, args);
+    }
+
+    const validationResults = getValidationResults(requestContext.validity);
+
+    const fieldResults: any[] = [];
+    const validationContext = new ValidationContext(requestContext, config, fieldResults);
+    const result = processValidators(
+        validators,
+        fieldResults,
+        [args[0], args[1], args[2], args[3], validationContext],
+        config
+    );
+    if (result && result.then) {
+        return result.then(() => {
+            return completeValidation(
+                context,
+                requestContext,
+                config,
+                resolver,
+                args,
+                fieldResults,
+                validationResults
+            );
+        });
+    }
+
+    return completeValidation(
+        context,
+        requestContext,
+        config,
+        resolver,
+        args,
+        fieldResults,
+        validationResults
+    );
+}
+
+/**
+ * Stores field validation results and executes the original resolver,
+ * unless config enforcement mode or validation results require field
+ * resolution to be blocked
+ *
+ * @param context - this object of the original resolver call
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ * @param {ValidityConfig} config - config options for validation
+ * @param {Function} resolver - original resolver function
+ * @param {any[]} args - original resolver arguments
+ * @param {any[]} fieldResults - validation results produced for the field
+ * @param {any[]} validationResults - static array of validation results
+ *
+ * @returns {any} - resolver result or null if resolution was blocked
+ */
+function completeValidation(
+    context: any,
+    requestContext: FieldValidationObject,
+    config: ValidityConfig,
+    resolver: Function,
+    args: any[],
+    fieldResults: any[],
+    validationResults: any[]
+) {
+    if (config.enableProfiling) {
+        // validation end time
+        requestContext.vet = Date.now();
+    }
+
+    processAuditResults(fieldResults, requestContext, config);
+
+    const blocked = fieldResults.some(result =>
+        getSeverity(result) === 'error' &&
+        (config.enforcementMode === 'block' || !!result.blockResolution)
+    );
+
+    locateValidationResults(fieldResults, requestContext);
+    Array.prototype.push.apply(validationResults, fieldResults);
+
+    if (blocked) {
         if (config.enableProfiling) {
-            if (result && result.then) {
-                result.then(() => {
-                    processProfiling(requestContext);
-                });
-            }
-            else {
-                processProfiling(requestContext);
-            }
+            processProfiling(requestContext);
         }
 
+        return null;
+    }
+
+    const result = executeResolver(context, requestContext, config, resolver, args);
+
+    if (!requestContext.outputValidators || !requestContext.outputValidators.length) {
         return result;
+    }
+
+    if (result && result.then) {
+        return result.then((value: any) =>
+            validateOutput(value, config, args, requestContext)
+        );
+    }
+
+    return validateOutput(result, config, args, requestContext);
+}
+
+/**
+ * Runs output validators against the resolved value and stores their results,
+ * replaces value with null if enforcement mode or validation results require it
+ *
+ * @param value - resolved field value
+ * @param {ValidityConfig} config - config options for validation
+ * @param {any[]} args - original resolver arguments
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ *
+ * @returns {any} - resolved value, null, or a promise if any validator is async
+ */
+function validateOutput(
+    value: any,
+    config: ValidityConfig,
+    args: any[],
+    requestContext: FieldValidationObject
+) {
+    const outputResults: any[] = [];
+    const complete = () => {
+        processAuditResults(outputResults, requestContext, config);
+
+        const blocked = outputResults.some(result =>
+            getSeverity(result) === 'error' &&
+            (config.enforcementMode === 'block' || !!result.blockResolution)
+        );
+
+        locateValidationResults(outputResults, requestContext);
+        Array.prototype.push.apply(
+            getValidationResults(requestContext.validity),
+            outputResults
+        );
+
+        return blocked ? null : value;
     };
+
+    const result = processValidators(
+        <Function[]>requestContext.outputValidators,
+        outputResults,
+        [value, args[2], args[3], new ValidationContext(requestContext, config, outputResults)],
+        config
+    );
+
+    return result && result.then ? result.then(complete) : complete();
+}
+
+/**
+ * Replaces validation results with copies containing path and locations of the
+ * validated field, results returned by validators are never modified
+ *
+ * @param {any[]} fieldResults - validation results produced for the field
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ */
+function locateValidationResults(
+    fieldResults: any[],
+    requestContext: FieldValidationObject
+) {
+    if (!requestContext.astPath) {
+        return;
+    }
+
+    const path = pathToArray(requestContext.astPath);
+    const locations = getLocations(requestContext.fieldNodes);
+
+    fieldResults.forEach((error, index) => {
+        if (!error || typeof error !== 'object') {
+            return;
+        }
+
+        fieldResults[index] = copyResult(error, {
+            path: error.path || path,
+            locations: error.locations || (locations.length ? locations : undefined)
+        });
+    });
+}
+
+/**
+ * Executes original resolver and captures profiling data if enabled
+ *
+ * @param context - this object of the original resolver call
+ * @param {FieldValidationObject} requestContext - data gathered during field validation
+ * @param {ValidityConfig} config - config options for validation
+ * @param {Function} resolver - original resolver function
+ * @param {any[]} args - original resolver arguments
+ *
+ * @returns {any} - original resolver result
+ */
+function executeResolver(
+    context: any,
+    requestContext: FieldValidationObject,
+    config: ValidityConfig,
+    resolver: Function,
+    args: any[]
+) {
+    const result = resolver.apply(context, args);
+
+    if (config.enableProfiling) {
+        if (result && result.then) {
+            result.then(() => {
+                processProfiling(requestContext);
+            });
+        }
+        else {
+            processProfiling(requestContext);
+        }
+    }
+
+    return result;
 }
 
 /**
@@ -238,21 +704,30 @@ function processProfiling(requestContext: FieldValidationObject) {
  * Validator function executor
  *
  * @param {Function[]} validators - array of validation functions
- * @param {any[]} validationResults - static array of validation results
+ * @param {any[]} validationResults - array collecting validation results
  * @param {any[]} args - original resolver arguments
+ * @param {ValidityConfig} config - config options for validation
  *
  * @returns {Promise<void>} - return promise if at least one validator was returning promise
  */
 function processValidators(
     validators: Function[],
     validationResults: any[],
-    args: any[]
+    args: any[],
+    config: ValidityConfig
 ) {
     let promises = [];
 
     for (let i = 0, s = validators.length; i < s; i++) {
         let validator = validators[i];
-        let validationResult = validator.apply(this, args) || [];
+        let validationResult;
+        try {
+            validationResult = validator.apply(this, args) || [];
+        }
+        catch (err) {
+            validationResult = toValidationError(err);
+        }
+
         if (validationResult.then) {
             promises.push(validationResult);
         }
@@ -267,31 +742,98 @@ function processValidators(
     }
 
     if (promises.length) {
-        return handleValidationPromises(promises, validationResults);
+        return handleValidationPromises(promises, validationResults, config);
     }
 }
 
 /**
- * Synchronises validator promises execution
+ * Converts value thrown or rejected by a validator to validation error
+ *
+ * @param err - thrown or rejected value
+ *
+ * @returns {Error}
+ */
+function toValidationError(err: any): Error {
+    return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * Settles validator promises concurrently, converting rejections to validation
+ * errors and applying config timeouts
  *
  * @param {any[]} promises - array of validator promises
- * @param {any[]} validationResults - static array of validation results
+ * @param {any[]} validationResults - array collecting validation results
+ * @param {ValidityConfig} config - config options for validation
  *
  * @returns {Promise<void>} - general promise for all validator promises
  */
-async function handleValidationPromises(
+function handleValidationPromises(
     promises: any[],
-    validationResults: any[]
+    validationResults: any[],
+    config: ValidityConfig
 ) {
-    for (let promise of promises) {
-        let validationResult = (await promise) || [];
-        validationResult = Array.isArray(validationResult) ? validationResult : [validationResult];
+    const settled: any[][] = new Array(promises.length);
+    const timers: any[] = [];
+
+    const pending = promises.map((promise, index) => new Promise(resolve => {
+        const settle = (results: any[]) => {
+            settled[index] = settled[index] || results;
+            resolve();
+        };
+
+        if (config.validatorTimeout) {
+            timers.push(setTimeout(
+                () => settle(getTimeoutResults(config, <number>config.validatorTimeout)),
+                config.validatorTimeout
+            ));
+        }
 
-        Array.prototype.push.apply(
-            validationResults,
-            validationResult
+        promise.then(
+            (validationResult: any) => {
+                validationResult = validationResult || [];
+                settle(Array.isArray(validationResult) ? validationResult : [validationResult]);
+            },
+            (err: any) => settle([toValidationError(err)])
         );
+    }));
+
+    let validation: Promise<any> = Promise.all(pending);
+    if (config.fieldValidationTimeout) {
+        validation = Promise.race([validation, new Promise(resolve => {
+            timers.push(setTimeout(resolve, config.fieldValidationTimeout));
+        })]);
     }
+
+    return validation.then(() => {
+        timers.forEach(timer => clearTimeout(timer));
+
+        for (let i = 0, s = settled.length; i < s; i++) {
+            Array.prototype.push.apply(
+                validationResults,
+                settled[i] || getTimeoutResults(config, <number>config.fieldValidationTimeout)
+            );
+        }
+    });
+}
+
+/**
+ * Returns validation results of validator exceeding timeout, based on config timeout policy
+ *
+ * @param {ValidityConfig} config - config options for validation
+ * @param {number} timeout - exceeded timeout in milliseconds
+ *
+ * @returns {any[]} - timeout error, or no results if timed out validators pass
+ */
+function getTimeoutResults(config: ValidityConfig, timeout: number) {
+    if (config.timeoutPolicy === 'pass') {
+        return [];
+    }
+
+    return [new ValidityError(
+        `Validation timed out after ${timeout}ms`,
+        VALIDATION_TIMEOUT,
+        { timeout }
+    )];
 }
 
 /**
@@ -299,9 +841,10 @@ async function handleValidationPromises(
  *
  * @param {GraphQLObjectType} type - GraphQLObject schema entity
  * @param {ValidityConfig} config - setup options for the wrapper function
+ * @param {ValidatorRegistry} registry - registry of validator functions
  */
-function wrapType(type: any, config: ValidityConfig) {
-    if (type[Processed] || !type.getFields) {
+function wrapType(type: any, config: ValidityConfig, registry: ValidatorRegistry) {
+    if (type[Processed] || !type.getFields || !isResolvableType(type)) {
         return;
     }
 
@@ -311,7 +854,67 @@ function wrapType(type: any, config: ValidityConfig) {
             continue;
         }
 
-        wrapField(fields[fieldName], config);
+        const field = fields[fieldName];
+        if (!field[DirectivesRegistered]) {
+            field[DirectivesRegistered] = true;
+            field[ValidationTargets] = getFieldTargets(type, field);
+            registerDirectiveValidators(type, field, registry);
+        }
+
+        wrapField(field, config, registry);
+    }
+}
+
+/**
+ * Registers validators declared with @validate directive on field arguments,
+ * and output validators declared on the field itself
+ *
+ * @param type - GraphQLObject schema entity
+ * @param field - field of the type
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ */
+function registerDirectiveValidators(
+    type: any,
+    field: any,
+    registry: ValidatorRegistry
+) {
+    const outputValidators = getDirectiveValidators(field.astNode);
+
+    if (outputValidators.length) {
+        registry.forField(type.name, field.name).add(
+            ...outputValidators.map(validator => output(validator))
+        );
+    }
+
+    for (const arg of field.args || []) {
+        const validators = getDirectiveValidators(arg.astNode);
+
+        if (validators.length) {
+            registry.forArgument(type.name, field.name, arg.name).add(...validators);
+        }
+    }
+}
+
+/**
+ * Registers validators declared with @validate directive on input object fields
+ *
+ * @param type - GraphQLInputObjectType schema entity
+ * @param {ValidatorRegistry} registry - registry of validator functions
+ */
+function registerInputDirectiveValidators(type: any, registry: ValidatorRegistry) {
+    if (type[DirectivesRegistered]) {
+        return;
+    }
+
+    type[DirectivesRegistered] = true;
+
+    const fields = type.getFields();
+    for (const fieldName of Object.keys(fields)) {
+        const validators = getDirectiveValidators(fields[fieldName].astNode);
+
+        if (validators.length) {
+            registry.forInputField(type.name, fieldName).add(...validators);
+        }
     }
 }
 
@@ -320,14 +923,20 @@ function wrapType(type: any, config: ValidityConfig) {
  *
  * @param {GraphQLSchema} schema - schema object that must be wrapped
  * @param {ValidityConfig} config - setup options for the wrapper function
+ * @param {ValidatorRegistry} registry - registry of validator functions
  */
-function wrapSchema(schema: any, config: ValidityConfig) {
+function wrapSchema(schema: any, config: ValidityConfig, registry: ValidatorRegistry) {
     const types = schema.getTypeMap();
     for (const typeName in types) {
         if (!Object.hasOwnProperty.call(types, typeName)) {
             continue;
         }
 
-        wrapType(<any>types[typeName], config);
+        if (isInputObjectType(types[typeName])) {
+            registerInputDirectiveValidators(types[typeName], registry);
+        }
+        else {
+            wrapType(<any>types[typeName], config, registry);
+        }
     }
-}
\ No newline at end of file
+}
@@ -13,6 +13,21 @@ for (let i = 0; i < 256; i++) {
 
 const rand = Math.random;
 
+// Format of Unified Unique Identifier strings, version nibble is 1-5
+// and variant nibble is 8, 9, a or b, as produced by uuid() function
+export const UUID_REGEXP =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Checks whether a given value is Unified Unique Identifier string
+ *
+ * @param value - value to check
+ * @returns {boolean}
+ */
+export function isUuid(value: any): boolean {
+    return typeof value === 'string' && UUID_REGEXP.test(value);
+}
+
 /**
  * Generates and returns Unified Unique Identifier
  *
@@ -0,0 +1,114 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    FieldValidationObject,
+    pathToArray,
+    ValidityConfig,
+    ValidityError,
+    ValidityInfo,
+    ValidityWarning
+} from "./helpers";
+
+// Request scoped data and helpers passed to validators as the last argument
+export class ValidationContext {
+    constructor(
+        private requestContext: FieldValidationObject,
+        // active config of the wrapped field
+        public readonly config: ValidityConfig,
+        private results: any[]
+    ) {
+    }
+
+    // name of the validated field
+    get fieldName(): string {
+        return this.requestContext.fieldName;
+    }
+
+    // name of the parent type of the validated field
+    get parentTypeName(): string | undefined {
+        return this.requestContext.parentTypeName === undefined ?
+            undefined : String(this.requestContext.parentTypeName);
+    }
+
+    // path of the validated field in the response, e.g. ['users', 0, 'email']
+    get path(): Array<string | number> {
+        return pathToArray(this.requestContext.astPath);
+    }
+
+    // validity object of the request, storing validation results
+    get validity(): any {
+        return this.requestContext.validity;
+    }
+
+    // key/value store shared by all validators during the request
+    get store(): Map<any, any> {
+        const validity = this.requestContext.validity;
+
+        if (!validity) {
+            return new Map();
+        }
+
+        if (!validity.___store) {
+            validity.___store = new Map();
+        }
+
+        return validity.___store;
+    }
+
+    /**
+     * Adds error to the results of the validated field
+     *
+     * @param {Error | string} error - error or error message
+     * @param {string} code - error code, if message passed
+     * @param extensions - error extensions, if message passed
+     */
+    report(error: Error | string, code?: string, extensions?: { [key: string]: any }) {
+        this.results.push(typeof error === 'string' ?
+            new ValidityError(error, code, extensions) : error
+        );
+    }
+
+    /**
+     * Adds warning to the results of the validated field
+     *
+     * @param {string} message - warning message
+     * @param {string} code - warning code
+     * @param extensions - warning extensions
+     */
+    warn(message: string, code?: string, extensions?: { [key: string]: any }) {
+        this.results.push(new ValidityWarning(message, code, extensions));
+    }
+
+    /**
+     * Adds info message to the results of the validated field
+     *
+     * @param {string} message - info message
+     * @param {string} code - info code
+     * @param extensions - info extensions
+     */
+    inform(message: string, code?: string, extensions?: { [key: string]: any }) {
+        this.results.push(new ValidityInfo(message, code, extensions));
+    }
+}
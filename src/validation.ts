@@ -22,8 +22,23 @@
  * SOFTWARE.
  */
 
-import { PROFILING_DEBOUNCE_TIME } from "./magic-values";
 import {
+    PROFILING_DEBOUNCE_TIME,
+    RETURN_TYPE_PREFIX,
+    TOO_MANY_ERRORS
+} from "./magic-values";
+import {
+    isCapturedSafeError,
+    isSafeError
+} from "./error-classification";
+import { ValidationContext } from "./validation-context";
+import {
+    copyResult,
+    getNamedType,
+    getNamedTypeName,
+    getSeverity,
+    isInputObjectType,
+    isScalarType,
     ValidityConfig
 } from "./helpers";
 
@@ -31,41 +46,272 @@ import {
     required to be executed during graphql request */
 export const FieldValidationDefinitions: any = {};
 
+// Stores type names, which validators are applied to a field, computed on schema wrapping
+export const ValidationTargets = Symbol();
+
+// Type names, which validators are applied to a field in addition to its parent type
+export declare type FieldTargets = {
+    // interfaces of the parent type, which declare the field
+    interfaceNames: string[];
+    // returned type with its interfaces
+    returnTypeNames: string[];
+    // keys of input types, input fields and scalars reachable from each argument
+    inputKeys: { [argName: string]: string[] };
+}
+
+// Argument validators adapted to be called with the field resolver arguments, by argument name
+const argumentAdapters = new WeakMap<Function, { [argName: string]: Function }>();
+
+// Input validators of fields, by validator definitions object
+const inputAdapters = new WeakMap<any, WeakMap<any, Function>>();
+
+/**
+ * Resolves interface type names related to a given field, so validators
+ * defined for interfaces are applied to it, unions are matched only
+ * by fields returning the union itself, and definition keys reachable from
+ * the field arguments, so argument values are walked only if they are validated
+ *
+ * @param parentType - object type where field belongs to
+ * @param field - graphql field
+ * @returns {FieldTargets} - related abstract type names and input keys
+ */
+export function getFieldTargets(parentType: any, field: any): FieldTargets {
+    const interfaces = parentType && parentType.getInterfaces ?
+        parentType.getInterfaces() : [];
+    const interfaceNames = interfaces
+        .filter((iface: any) => iface.getFields && iface.getFields()[field.name])
+        .map((iface: any) => iface.name);
+
+    const namedType = getNamedType(field.type);
+    const returnTypeNames = [getNamedTypeName(field.type)].concat(
+        namedType && namedType.getInterfaces ?
+            namedType.getInterfaces().map((iface: any) => iface.name) : []
+    );
+
+    const inputKeys: { [argName: string]: string[] } = {};
+    for (const arg of field.args || []) {
+        inputKeys[arg.name] = getInputKeys(getNamedType(arg.type));
+    }
+
+    return { interfaceNames, returnTypeNames, inputKeys };
+}
+
 /**
- * Builds errors array, using validation results
+ * Collects definition keys of a given scalar or input object type,
+ * its fields and types nested in the input object fields
+ *
+ * @param type - graphql named type
+ * @param {string[]} keys - already collected keys
+ * @param {any[]} seen - already visited input types
+ * @returns {string[]} - list of definition keys
+ */
+function getInputKeys(type: any, keys: string[] = [], seen: any[] = []): string[] {
+    if (isScalarType(type)) {
+        if (keys.indexOf(type.name) < 0) {
+            keys.push(type.name);
+        }
+
+        return keys;
+    }
+
+    if (!isInputObjectType(type) || ~seen.indexOf(type)) {
+        return keys;
+    }
+
+    seen.push(type);
+    keys.push(type.name);
+
+    const fields = type.getFields();
+    for (const fieldName of Object.keys(fields)) {
+        keys.push(type.name + ':' + fieldName);
+        getInputKeys(getNamedType(fields[fieldName].type), keys, seen);
+    }
+
+    return keys;
+}
+
+/**
+ * Builds errors array, aggregating identical errors if configured, and adds warnings
+ * and info validation results and operation complexity to the response extensions,
+ * drops response data if operation was rejected by operation validators
  *
  * @param validity - an object injected to request at the beginning of the http call
  * @param data - result of graphql call
  */
 export function getResponseValidationResults(validity: any, data: any) {
-    if (data.errors || (validity && validity.___validationResults && validity.___validationResults.length)) {
+    if (validity && validity.___operationRejected) {
+        data.data = null;
+    }
+
+    const validationResults: any[] = (validity && validity.___validationResults) || [];
+    const errors = validationResults.filter(
+        result => getSeverity(result) === 'error'
+    );
+
+    if (data.errors || errors.length) {
+        const config: ValidityConfig = (validity && validity.config) || {};
         const originalErrors = data.errors || [];
-        data.errors =
+        const validationErrors = errors.map(
+            (error: Error) => {
+                return formatValidationError(error, validity);
+            });
+
+        data.errors = limitErrors(
             (Array.isArray(originalErrors) ? originalErrors : [originalErrors])
                 .map((err) => {
-                    return processError(err, validity.config);
+                    return processError(err, validity);
                 })
                 .concat(
-                    validity.___validationResults.map(
-                        (error: Error) => {
-                            return {
-                                message: processError(error, validity.config).message
-                            };
-                        })
-                );
+                    config.aggregateErrors ?
+                        aggregateErrors(validationErrors) :
+                        validationErrors
+                ),
+            config.maxErrors
+        );
+    }
+
+    const warnings = validationResults.filter(
+        result => getSeverity(result) === 'warning'
+    );
+    const info = validationResults.filter(
+        result => getSeverity(result) === 'info'
+    );
+
+    if (warnings.length) {
+        addValidityExtension(data, 'warnings', warnings.map(formatValidationResult));
+    }
+
+    if (info.length) {
+        addValidityExtension(data, 'info', info.map(formatValidationResult));
+    }
+
+    if (validity && validity.___complexity) {
+        addValidityExtension(data, 'complexity', validity.___complexity);
+    }
+}
+
+/**
+ * Adds value to the validity section of graphql response extensions
+ *
+ * @param data - result of graphql call
+ * @param {string} key - name of the value inside the validity extensions
+ * @param value - value to be added
+ */
+export function addValidityExtension(data: any, key: string, value: any) {
+    data.extensions = data.extensions || {};
+    data.extensions.validity = data.extensions.validity || {};
+    data.extensions.validity[key] = value;
+}
+
+/**
+ * Builds graphql response error entry from the validation result
+ *
+ * @param error - validation result produced by validator
+ * @param validity - an object injected to request at the beginning of the http call
+ * @returns {any} - error entry with message, locations, path and extensions
+ */
+function formatValidationError(error: any, validity: any) {
+    const processed = processError(error, validity);
+
+    // masked errors must not expose any additional data
+    if (processed !== error) {
+        return {
+            message: processed.message,
+            locations: error.locations,
+            path: error.path
+        };
+    }
+
+    return formatValidationResult(error);
+}
+
+/**
+ * Groups errors with the same message and extensions into a single error,
+ * having number of occurrences and paths of all the errors in extensions
+ *
+ * @param {any[]} errors - formatted validation errors
+ * @returns {any[]} - list of unique errors
+ */
+function aggregateErrors(errors: any[]) {
+    const groups: { [key: string]: any } = {};
+    const result: any[] = [];
+
+    for (const error of errors) {
+        const key = JSON.stringify([error.message, error.extensions]);
+        const group = groups[key];
+
+        if (!group) {
+            groups[key] = error;
+            result.push(error);
+            continue;
+        }
+
+        group.extensions = Object.assign({}, group.extensions, {
+            count: group.extensions && group.extensions.count ?
+                group.extensions.count + 1 : 2,
+            paths: (group.extensions && group.extensions.paths ?
+                group.extensions.paths : [group.path]).concat([error.path])
+        });
     }
+
+    return result;
+}
+
+/**
+ * Caps the number of errors, replacing the rest with a summary error
+ *
+ * @param {any[]} errors - response errors
+ * @param {number} maxErrors - maximal number of errors, not limited if undefined
+ * @returns {any[]} - limited list of errors
+ */
+function limitErrors(errors: any[], maxErrors?: number) {
+    if (maxErrors === undefined || errors.length <= maxErrors) {
+        return errors;
+    }
+
+    const omitted = errors.length - maxErrors;
+
+    return errors.slice(0, maxErrors).concat([{
+        message: `${omitted} more errors were omitted`,
+        extensions: { code: TOO_MANY_ERRORS, omitted }
+    }]);
+}
+
+/**
+ * Builds graphql response entry from the validation result, as is
+ *
+ * @param validationResult - validation result produced by validator
+ * @returns {any} - entry with message, locations, path and extensions
+ */
+function formatValidationResult(validationResult: any) {
+    const result: any = {
+        message: validationResult.message,
+        locations: validationResult.locations,
+        path: validationResult.path
+    };
+
+    if (validationResult.code || validationResult.extensions) {
+        result.extensions = Object.assign(
+            {},
+            validationResult.extensions,
+            validationResult.code ? { code: validationResult.code } : {}
+        );
+    }
+
+    return result;
 }
 
 /**
  * Masks errors if requests, other way returns original graphql error object
  *
  * @param error - graphql error object
- * @param {ValidityConfig} config - config - setup options for the wrapper function
+ * @param validity - an object injected to request at the beginning of the http call
  * @returns {any} - graphql error object
  */
-function processError(error: any, config: ValidityConfig) {
-    if (error.name === 'ValidityError' || error.message.indexOf('_Validity_') >= 0) {
-        error.message = error.message.slice(10);
+function processError(error: any, validity: any) {
+    const config: ValidityConfig = validity && validity.config;
+
+    if (isSafeError(error) || isCapturedSafeError(validity, error)) {
         return error;
     }
 
@@ -75,7 +321,7 @@ function processError(error: any, config: ValidityConfig) {
             return {
                 message: result.message,
                 path: error.path,
-                location: error.location
+                locations: error.locations
             };
         }
     }
@@ -106,6 +352,7 @@ export function getValidationResults(validity: any) {
  * @param field - field which will be validated
  * @param {string} parentTypeName - name of the parent object where field belongs to
  * @param validity - an object injected to request at the beginning of the http call
+ * @param definitions - object which stores validator functions
  *
  * @returns {validators: any[]}
  * - list of local and global validator functions
@@ -113,30 +360,357 @@ export function getValidationResults(validity: any) {
 export function getValidators(
     field: any,
     parentTypeName: string,
-    validity: any
+    validity: any,
+    definitions: any = FieldValidationDefinitions
 ) {
-    let validators =
-        (
-            FieldValidationDefinitions['*']
-            || []
-        ).concat
-        (
-            FieldValidationDefinitions[field.type]
-            || []
-        ).concat
-        (
-            FieldValidationDefinitions[parentTypeName + ':' + field.name]
-            || []
-        );
+    if (!field[ValidationTargets]) {
+        field[ValidationTargets] = getFieldTargets(undefined, field);
+    }
+
+    const targets: FieldTargets = field[ValidationTargets];
+    const typeNames = [parentTypeName].concat(targets.interfaceNames);
+
+    let validators = (definitions['*'] || []).concat(
+        ...typeNames.map(typeName =>
+            definitions[typeName] || []
+        ),
+        ...targets.returnTypeNames.map(typeName =>
+            definitions[RETURN_TYPE_PREFIX + typeName] || []
+        ),
+        ...typeNames.map(typeName =>
+            definitions[typeName + ':' + field.name] || []
+        ),
+        getArgumentValidators(field, typeNames, definitions),
+        getInputValidators(field, targets, definitions)
+    );
 
     if (!validity.___globalValidationResultsCaptured) {
         validity.___globalValidationResultsCaptured = true;
-        validators = validators.concat(FieldValidationDefinitions['$'] || []);
+        validators = validators.concat(definitions['$'] || []);
     }
 
     return validators;
 }
 
+/**
+ * Returns validators of the field arguments, defined with Type:field(argument) keys,
+ * adapted to be called with the field resolver arguments
+ *
+ * @param field - field which will be validated
+ * @param {string[]} typeNames - parent type name and its interface names
+ * @param definitions - object which stores validator functions
+ * @returns {Function[]} - list of adapted argument validators
+ */
+function getArgumentValidators(
+    field: any,
+    typeNames: string[],
+    definitions: any
+) {
+    const validators: Function[] = [];
+
+    for (const arg of field.args || []) {
+        for (const typeName of typeNames) {
+            const key = `${typeName}:${field.name}(${arg.name})`;
+
+            for (const validator of definitions[key] || []) {
+                validators.push(
+                    argumentValidator(arg.name, validator)
+                );
+            }
+        }
+    }
+
+    return validators;
+}
+
+/**
+ * Returns validator function which passes a single argument value
+ * to the argument validator and attaches argument name to its results,
+ * created once per argument validator and argument name
+ *
+ * @param {string} argName - name of the validated argument
+ * @param {Function} validator - argument validator, called with (value, context, info, validationContext)
+ * @returns {Function} - validator called with field resolver arguments
+ */
+function argumentValidator(argName: string, validator: Function) {
+    let adapters = argumentAdapters.get(validator);
+
+    if (!adapters) {
+        adapters = {};
+        argumentAdapters.set(validator, adapters);
+    }
+
+    if (!adapters[argName]) {
+        adapters[argName] = adaptArgumentValidator(argName, validator);
+    }
+
+    return adapters[argName];
+}
+
+/**
+ * Creates validator function which passes a single argument value
+ * to the argument validator and attaches argument name to its results
+ *
+ * @param {string} argName - name of the validated argument
+ * @param {Function} validator - argument validator, called with (value, context, info, validationContext)
+ * @returns {Function} - validator called with field resolver arguments
+ */
+function adaptArgumentValidator(argName: string, validator: Function) {
+    return function (
+        parent: any,
+        args: any,
+        context: any,
+        info: any,
+        validationContext?: ValidationContext
+    ) {
+        if (!args || !Object.prototype.hasOwnProperty.call(args, argName)) {
+            return;
+        }
+
+        const result = validator(args[argName], context, info, validationContext);
+
+        if (result && result.then) {
+            return result.then((result: any) =>
+                attachArgument(result, argName)
+            );
+        }
+
+        return attachArgument(result, argName);
+    };
+}
+
+/**
+ * Copies validation results adding argument name, and path for nested values, to the extensions
+ *
+ * @param result - validation result or list of results
+ * @param {string} argName - name of the validated argument
+ * @param {Array<string | number>} argumentPath - path of the nested value inside the argument
+ * @returns {any[]} - list of copied validation results
+ */
+function attachArgument(
+    result: any,
+    argName: string,
+    argumentPath?: Array<string | number>
+) {
+    const results = !result ? [] : Array.isArray(result) ? result : [result];
+
+    return results.map(error => error && typeof error === 'object' ?
+        copyResult(error, {
+            extensions: Object.assign(
+                argumentPath ?
+                    { argument: argName, argumentPath } :
+                    { argument: argName },
+                error.extensions
+            )
+        }) :
+        error
+    );
+}
+
+/**
+ * Returns validator of input arguments, which applies validators defined
+ * for input types, input fields, e.g. 'OrderItemInput:quantity', and scalars,
+ * e.g. 'Email', recursively to the argument values
+ *
+ * @param field - field which will be validated
+ * @param {FieldTargets} targets - definition keys reachable from the field arguments
+ * @param definitions - object which stores validator functions
+ * @returns {Function[]} - list with input validator, empty if no validators apply to field arguments
+ */
+function getInputValidators(field: any, targets: FieldTargets, definitions: any) {
+    const validated = (field.args || []).some(
+        (arg: any) => hasInputValidators(targets.inputKeys[arg.name], definitions)
+    );
+
+    if (!validated) {
+        return [];
+    }
+
+    let adapters = inputAdapters.get(definitions);
+
+    if (!adapters) {
+        adapters = new WeakMap();
+        inputAdapters.set(definitions, adapters);
+    }
+
+    if (!adapters.has(field)) {
+        adapters.set(field, inputValidator(field, definitions));
+    }
+
+    return [adapters.get(field)];
+}
+
+/**
+ * Checks whether validators are defined for any of a given definition keys
+ *
+ * @param {string[]} keys - definition keys reachable from an argument
+ * @param definitions - object which stores validator functions
+ * @returns {boolean}
+ */
+function hasInputValidators(keys: string[] | undefined, definitions: any): boolean {
+    return (keys || []).some(key => (definitions[key] || []).length > 0);
+}
+
+/**
+ * Creates validator function which walks values of the field arguments
+ * having input validators defined
+ *
+ * @param field - field which will be validated
+ * @param definitions - object which stores validator functions
+ * @returns {Function} - validator called with field resolver arguments
+ */
+function inputValidator(field: any, definitions: any) {
+    return function (
+        parent: any,
+        args: any,
+        context: any,
+        info: any,
+        validationContext?: ValidationContext
+    ) {
+        const targets: FieldTargets = field[ValidationTargets];
+        const results: any[] = [];
+
+        for (const arg of field.args || []) {
+            if (
+                args && Object.prototype.hasOwnProperty.call(args, arg.name) &&
+                hasInputValidators(targets.inputKeys[arg.name], definitions)
+            ) {
+                validateInputValue(
+                    arg.type,
+                    args[arg.name],
+                    [arg.name],
+                    definitions,
+                    [context, info, validationContext],
+                    results
+                );
+            }
+        }
+
+        return settleResults(results);
+    };
+}
+
+/**
+ * Runs scalar, input type and input field validators for a value and its nested values
+ *
+ * @param type - graphql input type of the value
+ * @param value - argument value or its nested value
+ * @param {Array<string | number>} path - path of the value inside the argument
+ * @param definitions - object which stores validator functions
+ * @param {any[]} extraArgs - context, info and validation context passed to validators
+ * @param {any[]} results - list collecting validation results and promises
+ */
+function validateInputValue(
+    type: any,
+    value: any,
+    path: Array<string | number>,
+    definitions: any,
+    extraArgs: any[],
+    results: any[]
+) {
+    if (value === null || value === undefined) {
+        return;
+    }
+
+    if (type.ofType) {
+        if (type.constructor.name === 'GraphQLList' && Array.isArray(value)) {
+            value.forEach((item, index) => validateInputValue(
+                type.ofType,
+                item,
+                path.concat(index),
+                definitions,
+                extraArgs,
+                results
+            ));
+        }
+        else {
+            validateInputValue(type.ofType, value, path, definitions, extraArgs, results);
+        }
+
+        return;
+    }
+
+    if (isScalarType(type)) {
+        runValueValidators(definitions[type.name], value, path, extraArgs, results);
+        return;
+    }
+
+    if (!isInputObjectType(type)) {
+        return;
+    }
+
+    runValueValidators(definitions[type.name], value, path, extraArgs, results);
+
+    const fields = type.getFields();
+    for (const fieldName of Object.keys(fields)) {
+        if (!Object.prototype.hasOwnProperty.call(value, fieldName)) {
+            continue;
+        }
+
+        const fieldPath = path.concat(fieldName);
+        runValueValidators(
+            definitions[type.name + ':' + fieldName],
+            value[fieldName],
+            fieldPath,
+            extraArgs,
+            results
+        );
+        validateInputValue(
+            fields[fieldName].type,
+            value[fieldName],
+            fieldPath,
+            definitions,
+            extraArgs,
+            results
+        );
+    }
+}
+
+/**
+ * Calls value validators and collects their results with argument path attached
+ *
+ * @param {Function[]} validators - validators called with (value, context, info)
+ * @param value - validated value
+ * @param {Array<string | number>} path - path of the value inside the argument
+ * @param {any[]} extraArgs - context, info and validation context passed to validators
+ * @param {any[]} results - list collecting validation results and promises
+ */
+function runValueValidators(
+    validators: Function[] | undefined,
+    value: any,
+    path: Array<string | number>,
+    extraArgs: any[],
+    results: any[]
+) {
+    for (const validator of validators || []) {
+        const result = validator(value, ...extraArgs);
+
+        results.push(
+            result && result.then ?
+                result.then((result: any) =>
+                    attachArgument(result, String(path[0]), path)
+                ) :
+                attachArgument(result, String(path[0]), path)
+        );
+    }
+}
+
+/**
+ * Flattens collected validation results, waiting for promises if any
+ *
+ * @param {any[]} results - list of validation result lists and promises
+ * @returns {any[] | Promise<any[]>} - flat list of validation results
+ */
+function settleResults(results: any[]) {
+    const flatten = (results: any[]) => [].concat(...results);
+
+    if (results.some(result => result && result.then)) {
+        return Promise.all(results).then(flatten);
+    }
+
+    return flatten(results);
+}
+
 /**
  * Modifies express response with validation results
  *
@@ -0,0 +1,422 @@
+/*!
+ * The MIT License (MIT)
+ *
+ * Copyright (c) 2017 Vlad Martynenko <vladimir.martynenko.work@gmail.com>
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in
+ * all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getValidators } from "./validation";
+import { audit } from "./audit";
+import { ValidationContext } from "./validation-context";
+import { OperationValidator } from "./operation";
+import {
+    isInputObjectType,
+    isScalarType
+} from "./helpers";
+import {
+    ARGUMENT_REGEXP,
+    OPERATION_KEY,
+    RETURN_TYPE_PREFIX
+} from "./magic-values";
+
+// Validator function, receives the same arguments as the field resolver followed by
+// validation context, and returns validation result, list of results, or a promise
+// resolving to any of them
+export declare type Validator = (
+    parent: any,
+    args: { [argName: string]: any },
+    context: any,
+    info: any,
+    validationContext?: ValidationContext
+) => any;
+
+// Validator of a single field argument, returns the same results as Validator
+export declare type ArgumentValidator = (
+    value: any,
+    context: any,
+    info: any,
+    validationContext?: ValidationContext
+) => any;
+
+// Kind of the validator definition key
+export declare type ValidatorSelector =
+    'global' |
+    'all' |
+    'type' |
+    'returnType' |
+    'field' |
+    'argument' |
+    'operation' |
+    'scalar' |
+    'inputType' |
+    'inputField';
+
+// Registered validators for a single definition key
+export declare type RegisteredValidators = {
+    // raw definition key, e.g. 'Mutation:createUser'
+    key: string;
+    // kind of the definition key
+    selector: ValidatorSelector;
+    // type name for all selectors except 'global', 'all' and 'operation'
+    typeName?: string;
+    // field name for 'field', 'inputField' and 'argument' selectors
+    fieldName?: string;
+    // argument name for 'argument' selector
+    argumentName?: string;
+    // list of validator functions, argument and scalar keys hold ArgumentValidator,
+    // operation key holds OperationValidator
+    validators: Array<Validator | ArgumentValidator | OperationValidator>;
+}
+
+// Keys of validators executed once per request and for each resolver
+const GLOBAL_KEY = '$';
+const ALL_KEY = '*';
+
+// Valid graphql name, used to prevent typos in type and field names
+const NAME_REGEXP = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Throws if a given value is not a valid graphql name
+ *
+ * @param {string} name - type or field name
+ * @param {string} kind - name kind for the error message
+ */
+function assertName(name: string, kind: string) {
+    if (typeof name !== 'string' || !NAME_REGEXP.test(name)) {
+        throw new TypeError(`Invalid ${kind} name "${name}" passed to ValidatorRegistry`);
+    }
+}
+
+/**
+ * Parses raw definition key to its selector parts, scalar and input type keys
+ * look the same as object type keys, so they are told apart by schema types
+ *
+ * @param {string} key - raw definition key
+ * @param types - schema types by name
+ * @returns {RegisteredValidators} - parsed key info without validators
+ */
+function parseKey(key: string, types: any = {}) {
+    if (key === GLOBAL_KEY) {
+        return { key, selector: <ValidatorSelector>'global' };
+    }
+
+    if (key === OPERATION_KEY) {
+        return { key, selector: <ValidatorSelector>'operation' };
+    }
+
+    if (key === ALL_KEY) {
+        return { key, selector: <ValidatorSelector>'all' };
+    }
+
+    if (key.indexOf(RETURN_TYPE_PREFIX) === 0) {
+        return {
+            key,
+            selector: <ValidatorSelector>'returnType',
+            typeName: key.slice(RETURN_TYPE_PREFIX.length)
+        };
+    }
+
+    const [typeName, fieldName] = key.split(':');
+    const type = types[typeName];
+
+    if (fieldName === undefined) {
+        const selector = isScalarType(type) ? 'scalar' :
+            isInputObjectType(type) ? 'inputType' : 'type';
+
+        return { key, selector: <ValidatorSelector>selector, typeName };
+    }
+
+    const argumentMatch = fieldName.match(ARGUMENT_REGEXP);
+    if (argumentMatch) {
+        return {
+            key,
+            selector: <ValidatorSelector>'argument',
+            typeName,
+            fieldName: argumentMatch[1],
+            argumentName: argumentMatch[2]
+        };
+    }
+
+    return {
+        key,
+        selector: <ValidatorSelector>(isInputObjectType(type) ? 'inputField' : 'field'),
+        typeName,
+        fieldName
+    };
+}
+
+// List of validators registered for a single definition key,
+// typed by the signature of validators the key accepts
+export class ValidatorTarget<T extends Function = Validator> {
+    constructor(private definitions: any, public readonly key: string) {
+    }
+
+    /**
+     * Adds validators to the end of the list
+     *
+     * @param {T[]} validators - validator functions to add
+     * @returns {ValidatorTarget} - this target for chaining
+     */
+    add(...validators: T[]): this {
+        this.definitions[this.key] = this.list().concat(validators);
+
+        return this;
+    }
+
+    /**
+     * Removes given validators from the list
+     *
+     * @param {T[]} validators - validator functions to remove
+     * @returns {ValidatorTarget} - this target for chaining
+     */
+    remove(...validators: T[]): this {
+        const rest = this.list().filter(
+            validator => validators.indexOf(validator) < 0
+        );
+
+        if (rest.length) {
+            this.definitions[this.key] = rest;
+        }
+        else {
+            delete this.definitions[this.key];
+        }
+
+        return this;
+    }
+
+    /**
+     * Adds given validators to the list in audit mode, so their results are
+     * passed to the config audit handler instead of the response
+     *
+     * @param {T[]} validators - validator functions to add
+     * @returns {ValidatorTarget} - this target for chaining
+     */
+    audit(...validators: T[]): this {
+        return this.add(...validators.map(validator => audit(validator)));
+    }
+
+    /**
+     * Replaces all validators in the list with given ones
+     *
+     * @param {T[]} validators - new validator functions
+     * @returns {ValidatorTarget} - this target for chaining
+     */
+    replace(...validators: T[]): this {
+        delete this.definitions[this.key];
+
+        return this.add(...validators);
+    }
+
+    /**
+     * Returns list of validators registered
+     *
+     * @returns {T[]} - copy of validator functions list
+     */
+    list(): T[] {
+        return (this.definitions[this.key] || []).slice();
+    }
+}
+
+// Typed API on top of validator definitions object
+export class ValidatorRegistry {
+    // selectors of scalar and input type keys registered with the registry
+    private selectors: { [key: string]: ValidatorSelector } = {};
+
+    constructor(public readonly definitions: any = {}) {
+    }
+
+    /**
+     * Validators executed for a particular field of a given type
+     *
+     * @param {string} typeName - name of the object type
+     * @param {string} fieldName - name of the field
+     * @returns {ValidatorTarget} - list of validators for the field
+     */
+    forField(typeName: string, fieldName: string): ValidatorTarget<Validator> {
+        assertName(typeName, 'type');
+        assertName(fieldName, 'field');
+
+        return new ValidatorTarget(this.definitions, typeName + ':' + fieldName);
+    }
+
+    /**
+     * Validators executed for a particular argument of a given field,
+     * they receive (value, context, info) and run only if argument is passed
+     *
+     * @param {string} typeName - name of the object type
+     * @param {string} fieldName - name of the field
+     * @param {string} argumentName - name of the argument
+     * @returns {ValidatorTarget} - list of validators for the argument
+     */
+    forArgument(
+        typeName: string,
+        fieldName: string,
+        argumentName: string
+    ): ValidatorTarget<ArgumentValidator> {
+        assertName(typeName, 'type');
+        assertName(fieldName, 'field');
+        assertName(argumentName, 'argument');
+
+        return new ValidatorTarget<ArgumentValidator>(
+            this.definitions,
+            `${typeName}:${fieldName}(${argumentName})`
+        );
+    }
+
+    /**
+     * Validators executed for each field of a given parent type
+     *
+     * @param {string} typeName - name of the parent type
+     * @returns {ValidatorTarget} - list of validators for the type fields
+     */
+    forType(typeName: string): ValidatorTarget<Validator> {
+        assertName(typeName, 'type');
+
+        return new ValidatorTarget(this.definitions, typeName);
+    }
+
+    /**
+     * Validators executed for each argument and input field value
+     * of a given scalar type, receive (value, context, info)
+     *
+     * @param {string} scalarName - name of the scalar type
+     * @returns {ValidatorTarget} - list of validators for the scalar values
+     */
+    forScalar(scalarName: string): ValidatorTarget<ArgumentValidator> {
+        assertName(scalarName, 'scalar');
+        this.selectors[scalarName] = 'scalar';
+
+        return new ValidatorTarget<ArgumentValidator>(this.definitions, scalarName);
+    }
+
+    /**
+     * Validators executed for each argument and input field value
+     * of a given input object type, receive (value, context, info)
+     *
+     * @param {string} typeName - name of the input object type
+     * @returns {ValidatorTarget} - list of validators for the input type values
+     */
+    forInputType(typeName: string): ValidatorTarget<ArgumentValidator> {
+        assertName(typeName, 'type');
+        this.selectors[typeName] = 'inputType';
+
+        return new ValidatorTarget<ArgumentValidator>(this.definitions, typeName);
+    }
+
+    /**
+     * Validators executed for each value of a given input object field,
+     * receive (value, context, info) and run only if the field is passed
+     *
+     * @param {string} typeName - name of the input object type
+     * @param {string} fieldName - name of the input field
+     * @returns {ValidatorTarget} - list of validators for the input field values
+     */
+    forInputField(typeName: string, fieldName: string): ValidatorTarget<ArgumentValidator> {
+        assertName(typeName, 'type');
+        assertName(fieldName, 'field');
+
+        const key = typeName + ':' + fieldName;
+        this.selectors[key] = 'inputField';
+
+        return new ValidatorTarget<ArgumentValidator>(this.definitions, key);
+    }
+
+    /**
+     * Validators executed for each field returning a given type,
+     * including lists and non-null wrappers of the type
+     *
+     * @param {string} typeName - name of the returned type
+     * @returns {ValidatorTarget} - list of validators for fields returning the type
+     */
+    forReturnType(typeName: string): ValidatorTarget<Validator> {
+        assertName(typeName, 'type');
+
+        return new ValidatorTarget(this.definitions, RETURN_TYPE_PREFIX + typeName);
+    }
+
+    /**
+     * Validators executed for each resolver
+     *
+     * @returns {ValidatorTarget} - list of validators for all resolvers
+     */
+    forAll(): ValidatorTarget<Validator> {
+        return new ValidatorTarget(this.definitions, ALL_KEY);
+    }
+
+    /**
+     * Validators executed once per request, for any resolver called first
+     *
+     * @returns {ValidatorTarget} - list of global validators
+     */
+    global(): ValidatorTarget<Validator> {
+        return new ValidatorTarget(this.definitions, GLOBAL_KEY);
+    }
+
+    /**
+     * Validators executed once per operation before any wrapped resolver,
+     * any error result rejects the whole operation
+     *
+     * @returns {ValidatorTarget} - list of operation validators
+     */
+    forOperation(): ValidatorTarget<OperationValidator> {
+        return new ValidatorTarget<OperationValidator>(this.definitions, OPERATION_KEY);
+    }
+
+    /**
+     * Returns all registered validators with their definition keys, scalar and
+     * input type keys added to definitions directly are recognized by schema types
+     *
+     * @param schema - graphql schema, optional
+     * @returns {RegisteredValidators[]} - list of registered validators
+     */
+    list(schema?: any): RegisteredValidators[] {
+        const types = schema ? schema.getTypeMap() : {};
+
+        return Object.keys(this.definitions)
+            .filter(key => (this.definitions[key] || []).length)
+            .map(key => {
+                const parsed = parseKey(key, types);
+
+                if (this.selectors[key]) {
+                    parsed.selector = this.selectors[key];
+                }
+
+                return Object.assign(parsed, {
+                    validators: this.definitions[key].slice()
+                });
+            });
+    }
+
+    /**
+     * Returns list of validators applicable to a given field
+     *
+     * @param field - field which will be validated
+     * @param {string} parentTypeName - name of the parent object where field belongs to
+     * @param validity - an object injected to request at the beginning of the http call
+     * @returns {Validator[]} - list of local and global validator functions
+     */
+    getValidators(
+        field: any,
+        parentTypeName: string,
+        validity: any
+    ): Validator[] {
+        return getValidators(field, parentTypeName, validity, this.definitions);
+    }
+}
@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import * as sinon from "sinon";
+
+import {
+    audit,
+    processAuditResults
+} from '../src/audit';
+import { isUuid } from '../src/uuid';
+import { isOutputValidator, output } from '../src/output';
+
+describe('audit', () => {
+    describe('audit', () => {
+        it('should mark sync and async validator results as audited', async () => {
+            const syncResult: any = audit(() => new Error('sync'))();
+            const asyncResult: any = await audit(async () => [new Error('async')])();
+
+            expect(syncResult.audit).to.be.true;
+            expect(asyncResult[0].audit).to.be.true;
+        });
+
+        it('should keep output marker of the validator', () => {
+            expect(isOutputValidator(audit(output(() => [])))).to.be.true;
+            expect(isOutputValidator(audit(() => []))).to.be.false;
+        });
+    });
+
+    describe('processAuditResults', () => {
+        it('should pass audited results to the handler and remove them', () => {
+            const auditHandler = sinon.spy();
+            const audited: any = new Error('audited');
+            audited.audit = true;
+            const reported = new Error('reported');
+            const results = [audited, reported];
+            const validity: any = {};
+
+            processAuditResults(results, {
+                fieldName: 'transfer',
+                parentTypeName: 'Mutation',
+                astPath: { key: 'transfer' },
+                validity,
+                info: { rootValue: { __graphQLValidityRequestId: 'request' } }
+            }, { wrapErrors: false, enableProfiling: false, auditHandler });
+
+            expect(results).to.deep.equal([reported]);
+            expect(auditHandler.firstCall.args[0]).to.deep.equal({
+                requestId: 'request',
+                path: ['transfer'],
+                fieldName: 'transfer',
+                parentTypeName: 'Mutation',
+                error: audited
+            });
+        });
+
+        it('should generate request id if request has none', () => {
+            const auditHandler = sinon.spy();
+            const audited: any = new Error('audited');
+            audited.audit = true;
+            const validity: any = {};
+
+            processAuditResults([audited], { fieldName: 'transfer', validity }, {
+                wrapErrors: false,
+                enableProfiling: false,
+                auditHandler
+            });
+
+            expect(isUuid(auditHandler.firstCall.args[0].requestId)).to.be.true;
+            expect(validity.___requestId).to.equal(auditHandler.firstCall.args[0].requestId);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+
+import {
+    AuthorizationError,
+    authorize,
+    FORBIDDEN,
+    requirePermissions,
+    requireRoles
+} from '../src/authorization';
+import { isSafeError } from '../src/error-classification';
+
+describe('authorization', () => {
+    const info = (config?: any) => ({
+        rootValue: { __graphQLValidity: { config } }
+    });
+
+    describe('authorize', () => {
+        it('should allow principal with any of the roles and all permissions', () => {
+            const validator = authorize({ roles: ['admin', 'owner'], permissions: ['read', 'write'] });
+            const context = { user: { roles: ['owner'], permissions: ['write', 'read'] } };
+
+            expect(validator({}, {}, context, info())).to.deep.equal([]);
+        });
+
+        it('should deny principal without roles or permissions', () => {
+            const validator = authorize({ roles: ['admin'], message: 'Admins only' });
+            const result = validator({}, {}, { user: { roles: ['user'] } }, info());
+
+            expect(result.length).to.equal(1);
+            expect(result[0]).to.be.instanceof(AuthorizationError);
+            expect(result[0].message).to.equal('Admins only');
+            expect(result[0].code).to.equal(FORBIDDEN);
+            expect(result[0].blockResolution).to.be.true;
+            expect(isSafeError(result[0])).to.be.true;
+
+            expect(requirePermissions('write')({}, {}, { user: { permissions: ['read'] } }, info()).length)
+                .to.equal(1);
+        });
+
+        it('should deny requests without principal', () => {
+            expect(requireRoles('admin')({}, {}, {}, info()).length).to.equal(1);
+        });
+
+        it('should use config principal extractor', () => {
+            const config = {
+                getPrincipal: (context: any) => ({ roles: [context.role] })
+            };
+
+            expect(requireRoles('admin')({}, {}, { role: 'admin' }, info(config))).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+import { expect } from 'chai';
+
+import {
+    ComplexityErrorCodes,
+    createComplexityValidator,
+    getOperationComplexity
+} from '../src/complexity';
+
+describe('complexity', () => {
+    const order: any = { name: 'Order', getFields: () => ({ id: { name: 'id', type: 'ID' } }) };
+    const user: any = {
+        name: 'User',
+        getFields: () => ({
+            name: { name: 'name', type: 'String' },
+            orders: { name: 'orders', type: { ofType: order } }
+        })
+    };
+    const query: any = {
+        name: 'Query',
+        getFields: () => ({ users: { name: 'users', type: { ofType: user } } })
+    };
+    const schema = {
+        getQueryType: () => query,
+        getTypeMap: () => ({ Query: query, User: user, Order: order })
+    };
+
+    const field = (name: string, selections?: any[], args: any[] = []) => ({
+        kind: 'Field',
+        name: { value: name },
+        arguments: args,
+        selectionSet: selections && { selections }
+    });
+    const argument = (name: string, value: any) => ({ name: { value: name }, value });
+
+    const operationContext = (validity?: any): any => {
+        const operation = {
+            operation: 'query',
+            selectionSet: {
+                selections: [
+                    field('__typename'),
+                    field('users', [
+                        { kind: 'FragmentSpread', name: { value: 'UserFields' } }
+                    ], [argument('first', { kind: 'IntValue', value: '10' })])
+                ]
+            }
+        };
+        const fragment = {
+            kind: 'FragmentDefinition',
+            name: { value: 'UserFields' },
+            typeCondition: { name: { value: 'User' } },
+            selectionSet: {
+                selections: [
+                    field('name'),
+                    {
+                        kind: 'InlineFragment',
+                        selectionSet: {
+                            selections: [
+                                field('orders', [field('id')], [
+                                    argument('limit', { kind: 'Variable', name: { value: 'limit' } })
+                                ])
+                            ]
+                        }
+                    }
+                ]
+            }
+        };
+
+        return {
+            document: { kind: 'Document', definitions: [operation, fragment] },
+            operation,
+            operationType: 'query',
+            variables: { limit: 5 },
+            schema,
+            validity
+        };
+    };
+
+    describe('getOperationComplexity', () => {
+        it('should compute cost with list multipliers and depth', () => {
+            expect(getOperationComplexity(operationContext())).to.deep.equal({
+                cost: 120,
+                depth: 3
+            });
+        });
+
+        it('should use cost overrides keyed as validator definitions', () => {
+            const result = getOperationComplexity(operationContext(), {
+                costs: { 'User:orders': 3, '=>User': 4, 'User': 2 }
+            });
+
+            // users: 10 * (4 + name: 2 + orders: 5 * (3 + id: 1))
+            expect(result.cost).to.equal(260);
+        });
+
+        it('should measure each fragment once', () => {
+            const fragments: any[] = [{
+                kind: 'FragmentDefinition',
+                name: { value: 'F0' },
+                typeCondition: { name: { value: 'User' } },
+                selectionSet: { selections: [field('name')] }
+            }];
+            const spread = (index: number) => ({ kind: 'FragmentSpread', name: { value: `F${index}` } });
+
+            for (let index = 1; index <= 40; index++) {
+                fragments.push({
+                    kind: 'FragmentDefinition',
+                    name: { value: `F${index}` },
+                    typeCondition: { name: { value: 'User' } },
+                    selectionSet: { selections: [spread(index - 1), spread(index - 1)] }
+                });
+            }
+
+            const operation = {
+                operation: 'query',
+                selectionSet: { selections: [field('users', [spread(40)])] }
+            };
+            const context: any = {
+                document: { kind: 'Document', definitions: [operation].concat(fragments) },
+                operation,
+                operationType: 'query',
+                variables: {},
+                schema
+            };
+
+            const started = Date.now();
+            expect(getOperationComplexity(context)).to.deep.equal({
+                cost: 1 + Math.pow(2, 40),
+                depth: 2
+            });
+            expect(Date.now() - started).to.be.below(1000);
+
+            const limited = getOperationComplexity(context, { maxCost: 100 });
+            expect(limited.cost).to.be.above(100);
+            expect(limited.cost).to.be.below(1000);
+        });
+
+        it('should stop measuring once limits are exceeded', () => {
+            // users: 10 * (1 + name: 1), orders are not measured
+            expect(getOperationComplexity(operationContext(), { maxCost: 5 }))
+                .to.deep.equal({ cost: 20, depth: 2 });
+            expect(getOperationComplexity(operationContext(), { maxDepth: 1 }))
+                .to.deep.equal({ cost: 20, depth: 2 });
+        });
+    });
+
+    describe('createComplexityValidator', () => {
+        it('should reject operations above limits', () => {
+            const validator = createComplexityValidator({ maxDepth: 2, maxCost: 100 });
+            const errors = validator(operationContext());
+
+            expect(errors.map((error: any) => error.code)).to.deep.equal([
+                ComplexityErrorCodes.DEPTH,
+                ComplexityErrorCodes.COST
+            ]);
+            expect(errors[1].extensions).to.deep.equal({
+                code: ComplexityErrorCodes.COST,
+                cost: 120,
+                maxCost: 100
+            });
+        });
+
+        it('should store computed complexity in request validity', () => {
+            const validity: any = {};
+            const validator = createComplexityValidator({ maxDepth: 3, maxCost: 120 });
+
+            expect(validator(operationContext(validity))).to.deep.equal([]);
+            expect(validity.___complexity).to.deep.equal({ cost: 120, depth: 3 });
+        });
+    });
+});
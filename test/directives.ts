@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+
+import {
+    compileValidateDirective,
+    getDirectiveValidators,
+    getValidateDirectiveArgs
+} from '../src/directives';
+
+function directiveNode(args: any[]) {
+    return {
+        directives: [{
+            name: { value: 'validate' },
+            arguments: args
+        }]
+    };
+}
+
+describe('directives', () => {
+    describe('getValidateDirectiveArgs', () => {
+        it('should convert directive arguments to values', () => {
+            const astNode = directiveNode([
+                { name: { value: 'format' }, value: { kind: 'StringValue', value: 'email' } },
+                { name: { value: 'min' }, value: { kind: 'IntValue', value: '0' } },
+                { name: { value: 'max' }, value: { kind: 'FloatValue', value: '99.5' } },
+                {
+                    name: { value: 'oneOf' }, value: {
+                        kind: 'ListValue',
+                        values: [{ kind: 'StringValue', value: 'A' }, { kind: 'StringValue', value: 'B' }]
+                    }
+                }
+            ]);
+
+            expect(getValidateDirectiveArgs(astNode)).to.deep.equal({
+                format: 'email',
+                min: 0,
+                max: 99.5,
+                oneOf: ['A', 'B']
+            });
+        });
+
+        it('should return undefined if directive is not used', () => {
+            expect(getValidateDirectiveArgs({ directives: [] })).to.be.undefined;
+            expect(getValidateDirectiveArgs(undefined)).to.be.undefined;
+        });
+    });
+
+    describe('compileValidateDirective', () => {
+        it('should compile arguments into rules', () => {
+            const validators = compileValidateDirective({
+                min: 0,
+                max: 100,
+                minLength: 1,
+                pattern: '^a',
+                oneOf: ['a', 'b'],
+                message: 'Invalid'
+            });
+
+            expect(validators.length).to.equal(5);
+            expect(validators[0](-1, {}, {})[0].message).to.equal('Invalid');
+        });
+
+        it('should compile format argument', () => {
+            const [validator] = compileValidateDirective({ format: 'email' });
+            expect(validator('test', {}, {})[0].code).to.equal('INVALID_EMAIL');
+        });
+
+        it('should throw on unknown format', () => {
+            expect(() => compileValidateDirective({ format: 'phone' })).to.throw(TypeError);
+            expect(() => compileValidateDirective({ format: 'constructor' })).to.throw(TypeError);
+            expect(() => compileValidateDirective({ format: 'toString' })).to.throw(TypeError);
+        });
+    });
+
+    describe('getDirectiveValidators', () => {
+        it('should return validators of the directive', () => {
+            const astNode = directiveNode([
+                { name: { value: 'maxLength' }, value: { kind: 'IntValue', value: '2' } }
+            ]);
+
+            const validators = getDirectiveValidators(astNode);
+            expect(validators.length).to.equal(1);
+            expect(validators[0]('abc', {}, {})[0].code).to.equal('VALUE_TOO_LONG');
+        });
+    });
+});
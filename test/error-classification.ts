@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+
+import {
+    captureSafeError,
+    isCapturedSafeError,
+    isSafeError,
+    registerSafeError,
+    unregisterSafeError
+} from '../src/error-classification';
+
+import {
+    ValidityError
+} from '../src/helpers';
+
+class NotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, NotFoundError.prototype);
+    }
+}
+
+describe('error-classification', () => {
+    describe('isSafeError', () => {
+        it('should treat ValidityError as safe', () => {
+            expect(isSafeError(new ValidityError('test'))).to.be.true;
+        });
+
+        it('should not treat general errors as safe', () => {
+            expect(isSafeError(new Error('test'))).to.be.false;
+        });
+
+        it('should inspect originalError chain', () => {
+            const error: any = new Error('wrapper');
+            error.originalError = { originalError: new ValidityError('test') };
+            expect(isSafeError(error)).to.be.true;
+        });
+    });
+
+    describe('registerSafeError', () => {
+        afterEach(() => {
+            unregisterSafeError(NotFoundError);
+        });
+
+        it('should mark errors of registered class as safe', () => {
+            expect(isSafeError(new NotFoundError('test'))).to.be.false;
+            registerSafeError(NotFoundError);
+            expect(isSafeError(new NotFoundError('test'))).to.be.true;
+        });
+
+        it('should mark errors matching registered predicate as safe', () => {
+            const predicate = (error: any) => error.code === 'FORBIDDEN';
+            registerSafeError(predicate);
+
+            const error: any = new Error('test');
+            error.code = 'FORBIDDEN';
+            expect(isSafeError(error)).to.be.true;
+
+            unregisterSafeError(predicate);
+            expect(isSafeError(error)).to.be.false;
+        });
+    });
+
+    describe('captureSafeError', () => {
+        it('should recognize serialized safe error by its path and message', () => {
+            const validity = {};
+            const path = { prev: { prev: undefined, key: 'user' }, key: 'email' };
+            captureSafeError(validity, path, new ValidityError('test'));
+
+            expect(isCapturedSafeError(validity, { message: 'test', path: ['user', 'email'] })).to.be.true;
+            expect(isCapturedSafeError(validity, { message: 'test', path: ['user'] })).to.be.false;
+        });
+
+        it('should not capture unsafe errors', () => {
+            const validity: any = {};
+            captureSafeError(validity, { key: 'user' }, new Error('test'));
+            expect(validity.___safeErrors).to.be.undefined;
+        });
+    });
+});
@@ -1,8 +1,13 @@
 import { expect } from 'chai';
 
 import {
+    getLocations,
+    getSeverity,
     onUnhandledError,
-    ValidityError
+    pathToArray,
+    ValidityError,
+    ValidityInfo,
+    ValidityWarning
 } from '../src/helpers';
 
 describe('helpers', () => {
@@ -16,11 +21,50 @@ describe('helpers', () => {
     });
 
     describe('ValidityError', () => {
-        it('Should have name and message changed when created', () => {
+        it('Should have name changed and message kept when created', () => {
             const errorMessage = 'test error message';
             const result = new ValidityError(errorMessage);
-            expect(result.message).to.have.string('_Validity_' + errorMessage);
+            expect(result.message).to.equal(errorMessage);
             expect(result.name).to.equal('ValidityError');
         });
+
+        it('Should keep code and extensions passed', () => {
+            const result = new ValidityError('test', 'BAD_INPUT', { field: 'email' });
+            expect(result.code).to.equal('BAD_INPUT');
+            expect(result.extensions).to.deep.equal({ field: 'email', code: 'BAD_INPUT' });
+        });
+    });
+
+    describe('getSeverity', () => {
+        it('Should return error severity by default', () => {
+            expect(getSeverity(new Error('test'))).to.equal('error');
+            expect(getSeverity(new ValidityError('test'))).to.equal('error');
+        });
+
+        it('Should return severity of warnings and info', () => {
+            expect(getSeverity(new ValidityWarning('test'))).to.equal('warning');
+            expect(getSeverity(new ValidityInfo('test'))).to.equal('info');
+            expect(getSeverity({ message: 'test', severity: 'info' })).to.equal('info');
+        });
+    });
+
+    describe('pathToArray', () => {
+        it('Should convert graphql path to array of keys', () => {
+            const path = { prev: { prev: { prev: undefined, key: 'users' }, key: 0 }, key: 'email' };
+            expect(pathToArray(path)).to.deep.equal(['users', 0, 'email']);
+        });
+    });
+
+    describe('getLocations', () => {
+        it('Should calculate line and column of the nodes', () => {
+            const source = { body: '{\n  users {\n    email\n  }\n}' };
+            const result = getLocations([{ loc: { start: 16, source } }]);
+            expect(result).to.deep.equal([{ line: 3, column: 5 }]);
+        });
+
+        it('Should skip nodes without location info', () => {
+            expect(getLocations([{}])).to.be.empty;
+            expect(getLocations()).to.be.empty;
+        });
     });
 });
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { expect } from 'chai';
+
+import { lintValidity } from '../src/lint';
+import { ValidatorRegistry } from '../src/validator-registry';
+
+describe('lint', () => {
+    const resolve = () => true;
+    let schema: any;
+
+    beforeEach(() => {
+        const user = {
+            name: 'User',
+            getFields: () => ({
+                email: { name: 'email', type: 'String' },
+                orders: { name: 'orders', type: '[Order]', resolve }
+            })
+        };
+        const mutation = {
+            name: 'Mutation',
+            getFields: () => ({
+                createUser: { name: 'createUser', type: 'User', args: [{ name: 'email' }], resolve },
+                deleteUser: { name: 'deleteUser', type: 'Boolean', resolve }
+            })
+        };
+        const types: any = {
+            User: user,
+            Mutation: mutation,
+            Order: { name: 'Order' },
+            String: {},
+            Boolean: {},
+            __Schema: { name: '__Schema', getFields: () => ({}) }
+        };
+
+        schema = {
+            getTypeMap: () => types,
+            getMutationType: () => mutation
+        };
+    });
+
+    describe('lintValidity', () => {
+        it('should report unknown types and fields', () => {
+            const result = lintValidity(schema, {
+                'Mutaton:createUser': [resolve],
+                'User:phone': [resolve],
+                'Usr': [resolve],
+                'String': [resolve],
+                '=>Ordr': [resolve]
+            });
+
+            expect(result.issues.map(issue => [issue.code, issue.key])).to.deep.include.members([
+                ['UNKNOWN_TYPE', 'Mutaton:createUser'],
+                ['UNKNOWN_FIELD', 'User:phone'],
+                ['UNKNOWN_TYPE', 'Usr'],
+                ['UNKNOWN_TYPE', 'String'],
+                ['UNKNOWN_TYPE', '=>Ordr']
+            ]);
+        });
+
+        it('should check argument keys', () => {
+            const result = lintValidity(schema, {
+                'Mutation:createUser(email)': [resolve],
+                'Mutation:createUser(mail)': [resolve]
+            });
+
+            expect(result.issues.map(issue => [issue.code, issue.key])).to.deep.equal([
+                ['UNKNOWN_ARGUMENT', 'Mutation:createUser(mail)'],
+                ['UNGUARDED_MUTATION', 'Mutation:deleteUser']
+            ]);
+            expect(result.coverage.guarded).to.include('Mutation:createUser');
+        });
+
+        it('should report fields without resolvers', () => {
+            const result = lintValidity(schema, { 'User:email': [resolve] });
+            expect(result.issues.map(issue => issue.code)).to.include('MISSING_RESOLVER');
+        });
+
+        it('should not report fields without resolvers if default resolvers are wrapped', () => {
+            const result = lintValidity(schema, { 'User:email': [resolve] }, {
+                wrapErrors: false,
+                enableProfiling: false,
+                wrapDefaultResolvers: true
+            });
+            expect(result.issues.map(issue => issue.code)).to.not.include('MISSING_RESOLVER');
+            expect(result.coverage.guarded).to.include('User:email');
+        });
+
+        it('should check interface field keys against implementing types', () => {
+            const node = {
+                name: 'Node',
+                constructor: { name: 'GraphQLInterfaceType' },
+                getFields: () => ({ id: { name: 'id', type: 'ID' } })
+            };
+            const types = schema.getTypeMap();
+            types.Node = node;
+            types.Post = {
+                name: 'Post',
+                getInterfaces: () => [node],
+                getFields: () => ({ id: { name: 'id', type: 'ID', resolve } })
+            };
+
+            const result = lintValidity(schema, { 'Node:id': [resolve] });
+            expect(result.issues.map(issue => issue.code)).to.not.include('MISSING_RESOLVER');
+            expect(result.coverage.guarded).to.include('Post:id');
+            expect(result.coverage.guarded).to.not.include('Node:id');
+        });
+
+        it('should accept input type and input field keys', () => {
+            const orderItemInput = {
+                name: 'OrderItemInput',
+                constructor: { name: 'GraphQLInputObjectType' },
+                getFields: () => ({ quantity: { name: 'quantity', type: 'Int' } })
+            };
+            const types = schema.getTypeMap();
+            types.OrderItemInput = orderItemInput;
+            types.Order = {
+                name: 'Order',
+                getFields: () => ({
+                    addItem: { name: 'addItem', type: 'Order', args: [{ name: 'item', type: orderItemInput }], resolve }
+                })
+            };
+
+            const result = lintValidity(schema, {
+                'OrderItemInput': [resolve],
+                'OrderItemInput:quantity': [resolve],
+                'OrderItemInput:amount': [resolve]
+            });
+
+            expect(result.issues.map(issue => [issue.code, issue.key])).to.deep.include.members([
+                ['UNKNOWN_FIELD', 'OrderItemInput:amount']
+            ]);
+            expect(result.issues.map(issue => issue.code)).to.not.include('MISSING_RESOLVER');
+        });
+
+        it('should accept scalar keys', () => {
+            schema.getTypeMap().Email = {
+                name: 'Email',
+                constructor: { name: 'GraphQLScalarType' }
+            };
+
+            const result = lintValidity(schema, { 'Email': [resolve] });
+            expect(result.issues.map(issue => issue.code)).to.not.include('UNKNOWN_TYPE');
+        });
+
+        it('should report type, return type and scalar keys not applied to any resolver', () => {
+            const email = { name: 'Email', constructor: { name: 'GraphQLScalarType' } };
+            const types = schema.getTypeMap();
+            types.Email = email;
+            types.Profile = {
+                name: 'Profile',
+                getFields: () => ({ bio: { name: 'bio', type: 'String' } })
+            };
+
+            const definitions = {
+                'Profile': [resolve],
+                '=>String': [resolve],
+                'Email': [resolve],
+                'User': [resolve],
+                '=>Boolean': [resolve]
+            };
+            const result = lintValidity(schema, definitions);
+
+            expect(result.issues
+                .filter(issue => issue.code === 'MISSING_RESOLVER')
+                .map(issue => issue.key)
+            ).to.deep.equal(['Profile', '=>String', 'Email']);
+
+            const fields = types.Mutation.getFields();
+            fields.createUser.args.push({ name: 'contact', type: email });
+            types.Mutation.getFields = () => fields;
+
+            expect(lintValidity(schema, definitions).issues
+                .filter(issue => issue.code === 'MISSING_RESOLVER')
+                .map(issue => issue.key)
+            ).to.deep.equal(['Profile', '=>String']);
+        });
+
+        it('should report mutations without validators', () => {
+            const result = lintValidity(schema, { 'Mutation:createUser': [resolve] });
+            const mutations = result.issues
+                .filter(issue => issue.code === 'UNGUARDED_MUTATION')
+                .map(issue => issue.key);
+
+            expect(mutations).to.deep.equal(['Mutation:deleteUser']);
+        });
+
+        it('should return coverage summary', () => {
+            const result = lintValidity(schema, { '=>Order': [resolve], 'Mutation:createUser': [resolve] });
+
+            expect(result.issues.map(issue => issue.code)).to.not.include('UNKNOWN_TYPE');
+            expect(result.coverage).to.deep.equal({
+                total: 4,
+                guarded: ['User:orders', 'Mutation:createUser'],
+                unguarded: ['User:email', 'Mutation:deleteUser']
+            });
+        });
+
+        it('should accept validator registry', () => {
+            const registry = new ValidatorRegistry();
+            registry.forAll().add(resolve);
+
+            const result = lintValidity(schema, registry);
+            expect(result.issues).to.be.empty;
+            expect(result.coverage.guarded.length).to.equal(3);
+        });
+    });
+});
@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+import * as sinon from "sinon";
+
+import { memoize } from '../src/memoize';
+import { isOutputValidator, output } from '../src/output';
+import { isAuthorizationGuard, requireRoles } from '../src/authorization';
+import { ValidationContext } from '../src/validation-context';
+
+describe('memoize', () => {
+    const config = { wrapErrors: false, enableProfiling: false };
+    const validationContext = (validity: any) =>
+        new ValidationContext({ fieldName: 'order', validity }, config, []);
+
+    describe('memoize', () => {
+        it('should execute validator once per cache key within a request', () => {
+            const error = new Error('not owner');
+            const validator = sinon.spy((parent: any) => parent.ownerId === 1 ? [] : [error]);
+            const memoized = memoize(validator, (parent: any) => parent.ownerId);
+            const validity = {};
+
+            expect(memoized({ ownerId: 2 }, {}, {}, {}, validationContext(validity))).to.deep.equal([error]);
+            expect(memoized({ ownerId: 2 }, {}, {}, {}, validationContext(validity))[0]).to.equal(error);
+            expect(memoized({ ownerId: 1 }, {}, {}, {}, validationContext(validity))).to.deep.equal([]);
+            expect(validator.callCount).to.equal(2);
+
+            memoized({ ownerId: 2 }, {}, {}, {}, validationContext({}));
+            expect(validator.callCount).to.equal(3);
+        });
+
+        it('should not memoize results outside of a request', () => {
+            const validator = sinon.spy(() => []);
+            const memoized = memoize(validator, () => 'key');
+
+            memoized({}, {}, {}, {});
+            memoized({}, {}, {}, {});
+            expect(validator.callCount).to.equal(2);
+        });
+
+        it('should keep output and authorization markers of the validator', () => {
+            expect(isOutputValidator(memoize(output(() => []), () => 'key'))).to.be.true;
+            expect(isAuthorizationGuard(memoize(requireRoles('admin'), () => 'key'))).to.be.true;
+            expect(isOutputValidator(memoize(() => [], () => 'key'))).to.be.false;
+        });
+    });
+});
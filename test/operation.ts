@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+
+import { getOperationContext } from '../src/operation';
+
+describe('operation', () => {
+    describe('getOperationContext', () => {
+        it('should build operation data from resolve info', () => {
+            const operation = { operation: 'mutation', name: { value: 'CreateUser' } };
+            const fragment = { kind: 'FragmentDefinition' };
+            const request = { __graphQLValidity: {} };
+            const schema = {};
+            const context = { user: 'admin' };
+
+            const result = getOperationContext({
+                operation,
+                fragments: { UserFields: fragment },
+                variableValues: { email: 'test' },
+                schema,
+                rootValue: request
+            }, context);
+
+            expect(result).to.deep.equal({
+                document: { kind: 'Document', definitions: [operation, fragment] },
+                operation,
+                operationName: 'CreateUser',
+                operationType: 'mutation',
+                variables: { email: 'test' },
+                schema,
+                request,
+                validity: request.__graphQLValidity,
+                context
+            });
+        });
+
+        it('should return null name for anonymous operations', () => {
+            const result = getOperationContext({ operation: { operation: 'query' } }, {});
+
+            expect(result.operationName).to.be.null;
+            expect(result.variables).to.deep.equal({});
+        });
+    });
+});
@@ -0,0 +1,27 @@
+import { expect } from 'chai';
+
+import {
+    isOutputValidator,
+    output
+} from '../src/output';
+import { ValidityWarning } from '../src/helpers';
+
+describe('output', () => {
+    describe('output', () => {
+        it('should mark validator as output validator', () => {
+            const validator = (value: any) => [];
+
+            expect(isOutputValidator(output(validator))).to.be.true;
+            expect(isOutputValidator(validator)).to.be.false;
+        });
+
+        it('should mark errors as blocking if nullOnError is set', async () => {
+            const warning = new ValidityWarning('warning');
+            const validator = output(async () => [new Error('error'), warning], { nullOnError: true });
+            const result = await validator(1, {}, {});
+
+            expect(result[0].blockResolution).to.be.true;
+            expect(result[1].blockResolution).to.be.undefined;
+        });
+    });
+});
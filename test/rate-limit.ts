@@ -0,0 +1,117 @@
+import { expect } from 'chai';
+import * as sinon from "sinon";
+
+import {
+    MemoryRateLimitStore,
+    RATE_LIMITED,
+    rateLimit
+} from '../src/rate-limit';
+
+describe('rate-limit', () => {
+    let clock: sinon.SinonFakeTimers;
+    const info = (ip: string) => ({
+        parentType: 'Mutation',
+        fieldName: 'sendSms',
+        rootValue: { ip }
+    });
+
+    beforeEach(() => {
+        clock = sinon.useFakeTimers(1000000);
+    });
+
+    afterEach(() => {
+        clock.restore();
+    });
+
+    describe('fixed-window', () => {
+        it('should deny requests above the limit until the window ends', () => {
+            const validator = rateLimit({ limit: 2, window: 10000, store: new MemoryRateLimitStore() });
+
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+
+            clock.tick(4000);
+            const result = validator({}, {}, {}, info('1'));
+            expect(result.length).to.equal(1);
+            expect(result[0].code).to.equal(RATE_LIMITED);
+            expect(result[0].blockResolution).to.be.true;
+            expect(result[0].extensions).to.deep.equal({ retryAfter: 6, limit: 2, code: 'RATE_LIMITED' });
+
+            expect(validator({}, {}, {}, info('2'))).to.deep.equal([]);
+
+            clock.tick(6000);
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+        });
+    });
+
+    describe('token-bucket', () => {
+        it('should refill tokens evenly during the window', () => {
+            const validator = rateLimit({
+                strategy: 'token-bucket',
+                limit: 2,
+                window: 10000,
+                store: new MemoryRateLimitStore()
+            });
+
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+
+            const result = validator({}, {}, {}, info('1'));
+            expect(result[0].extensions.retryAfter).to.equal(5);
+
+            clock.tick(5000);
+            expect(validator({}, {}, {}, info('1'))).to.deep.equal([]);
+        });
+    });
+
+    describe('store', () => {
+        it('should support asynchronous stores and custom identity', async () => {
+            const values: any = {};
+            const store = {
+                update: async (key: string, updater: (state: any) => any) => {
+                    const result = updater(values[key]);
+                    values[key] = result.state;
+
+                    return result;
+                }
+            };
+            const validator = rateLimit({
+                limit: 1,
+                window: 1000,
+                store,
+                identify: (request, context) => context.userId
+            });
+
+            expect(await validator({}, {}, { userId: 'a' }, info('1'))).to.deep.equal([]);
+            expect((await validator({}, {}, { userId: 'a' }, info('2'))).length).to.equal(1);
+            expect(Object.keys(values)).to.deep.equal(['rate-limit:fixed-window:1:1000:Mutation:sendSms:a']);
+        });
+
+        it('should keep counters of rules on the same field apart', () => {
+            const store = new MemoryRateLimitStore();
+            const perSecond = rateLimit({ limit: 1, window: 1000, store });
+            const perMinute = rateLimit({ strategy: 'token-bucket', limit: 3, window: 60000, store });
+
+            expect(perSecond({}, {}, {}, info('1'))).to.deep.equal([]);
+            expect(perMinute({}, {}, {}, info('1'))).to.deep.equal([]);
+
+            clock.tick(1000);
+            expect(perSecond({}, {}, {}, info('1'))).to.deep.equal([]);
+            expect(perMinute({}, {}, {}, info('1'))).to.deep.equal([]);
+            expect(store.size).to.equal(2);
+        });
+
+        it('should sweep expired counters from memory', () => {
+            const store = new MemoryRateLimitStore(5000);
+            const validator = rateLimit({ limit: 1, window: 1000, store });
+
+            validator({}, {}, {}, info('1'));
+            validator({}, {}, {}, info('2'));
+            expect(store.size).to.equal(2);
+
+            clock.tick(5000);
+            validator({}, {}, {}, info('3'));
+            expect(store.size).to.equal(1);
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+
+import { rules } from '../src/rules';
+import { uuid } from '../src/uuid';
+
+function codes(result: any[]) {
+    return result.map(error => error.code);
+}
+
+describe('rules', () => {
+    it('should skip null and undefined values', () => {
+        expect(rules.email()(null, {}, {})).to.be.empty;
+        expect(rules.min(1)(undefined, {}, {})).to.be.empty;
+    });
+
+    describe('min and max', () => {
+        it('should check number limits', () => {
+            expect(rules.min(0)(1, {}, {})).to.be.empty;
+            expect(codes(rules.min(0)(-1, {}, {}))).to.deep.equal(['VALUE_TOO_SMALL']);
+            expect(codes(rules.max(100)(101, {}, {}))).to.deep.equal(['VALUE_TOO_LARGE']);
+            expect(rules.max(100)(101, {}, {})[0].extensions).to.deep.equal({ max: 100, code: 'VALUE_TOO_LARGE' });
+        });
+    });
+
+    describe('length', () => {
+        it('should check string and list length', () => {
+            const rule = rules.length({ min: 3, max: 5 });
+            expect(rule('abcd', {}, {})).to.be.empty;
+            expect(codes(rule('ab', {}, {}))).to.deep.equal(['VALUE_TOO_SHORT']);
+            expect(codes(rule([1, 2, 3, 4, 5, 6], {}, {}))).to.deep.equal(['VALUE_TOO_LONG']);
+        });
+    });
+
+    describe('pattern', () => {
+        it('should check regular expression match', () => {
+            const rule = rules.pattern(/^[a-z]+$/g, { message: 'Lowercase only', code: 'LOWERCASE' });
+            expect(rule('abc', {}, {})).to.be.empty;
+            expect(rule('abc', {}, {})).to.be.empty;
+            const result = rule('ABC', {}, {});
+            expect(result[0].message).to.equal('Lowercase only');
+            expect(result[0].code).to.equal('LOWERCASE');
+        });
+    });
+
+    describe('oneOf', () => {
+        it('should check enum membership', () => {
+            expect(rules.oneOf(['A', 'B'])('A', {}, {})).to.be.empty;
+            expect(codes(rules.oneOf(['A', 'B'])('C', {}, {}))).to.deep.equal(['VALUE_NOT_ALLOWED']);
+        });
+    });
+
+    describe('formats', () => {
+        it('should check email', () => {
+            expect(rules.email()('test@example.com', {}, {})).to.be.empty;
+            expect(codes(rules.email()('test@', {}, {}))).to.deep.equal(['INVALID_EMAIL']);
+        });
+
+        it('should check url', () => {
+            expect(rules.url()('https://example.com/path?a=1', {}, {})).to.be.empty;
+            expect(codes(rules.url()('example.com', {}, {}))).to.deep.equal(['INVALID_URL']);
+        });
+
+        it('should check uuid', () => {
+            expect(rules.uuid()(uuid(), {}, {})).to.be.empty;
+            expect(codes(rules.uuid()('not-a-uuid', {}, {}))).to.deep.equal(['INVALID_UUID']);
+        });
+    });
+
+    describe('date', () => {
+        it('should check date validity and range', () => {
+            const rule = rules.date({ min: '2018-01-01', max: new Date('2018-12-31') });
+            expect(rule('2018-06-01', {}, {})).to.be.empty;
+            expect(codes(rule('not a date', {}, {}))).to.deep.equal(['INVALID_DATE']);
+            expect(codes(rule('2017-06-01', {}, {}))).to.deep.equal(['DATE_TOO_EARLY']);
+            expect(codes(rule(new Date('2019-06-01'), {}, {}))).to.deep.equal(['DATE_TOO_LATE']);
+        });
+
+        it('should throw on invalid date limits', () => {
+            expect(() => rules.date({ min: 'garbage' }))
+                .to.throw(TypeError, 'Invalid date "garbage" passed as min option of date rule');
+            expect(() => rules.date({ max: NaN }))
+                .to.throw(TypeError, 'passed as max option of date rule');
+        });
+    });
+});
@@ -2,12 +2,20 @@ var chai = require("chai");
 var chaiAsPromised = require("chai-as-promised");
 chai.use(chaiAsPromised);
 var expect = chai.expect;
+import * as sinon from "sinon";
 
 import {
+    createValidity,
     wrapResolvers,
     Processed
 } from '../src/schema-wrapper';
-import { FieldValidationDefinitions } from "..";
+import {
+    FieldValidationDefinitions,
+    memoize,
+    output,
+    requireRoles,
+    ValidityWarning
+} from "..";
 
 describe('schema-wrapper', () => {
     describe('wrapResolvers', () => {
@@ -346,7 +354,7 @@ describe('schema-wrapper', () => {
                 }));
         });
 
-        it('resolve should throw during validator promise rejection', async () => {
+        it('resolve should capture validator promise rejection as validation error', async () => {
                 FieldValidationDefinitions['$'] = [() => {
                     return new Promise((resolve, reject) => reject('test2'));
                 }];
@@ -366,7 +374,46 @@ describe('schema-wrapper', () => {
                     unhandledErrorWrapper: (err: Error) => {return err}
                 });
 
-                const validity = {};
+                const validity: any = { ___profilingData: [] };
+
+                expect(await field.resolve(
+                    {
+                        parentType: 'Test',
+                        rootValue: {
+                            __graphQLValidity: validity
+                        }
+                    })).to.be.true;
+                expect(validity.___validationResults.map((err: any) => err.message))
+                    .to.deep.equal(['test2']);
+            }
+        );
+
+        it('resolve should capture validator exception as validation error', async () => {
+                FieldValidationDefinitions['$'] = [
+                    () => {
+                        throw new Error('test3');
+                    },
+                    () => {
+                        throw 'test4';
+                    }
+                ];
+                const resolve = function (...args: any[]) {
+                    return true;
+                };
+                const field = { resolve, name: 'Test' };
+
+                const type = new GraphQLObjectType([field], 'Test');
+                const typesMap = {
+                    'Test': type
+                };
+                const schema = new GraphQLSchema(typesMap);
+                wrapResolvers(schema, {
+                    wrapErrors: false,
+                    enableProfiling: false,
+                    unhandledErrorWrapper: (err: Error) => {return err}
+                });
+
+                const validity: any = {};
 
                 expect(field.resolve(
                     {
@@ -374,7 +421,9 @@ describe('schema-wrapper', () => {
                         rootValue: {
                             __graphQLValidity: validity
                         }
-                    })).to.eventually.be.rejected;
+                    })).to.be.true;
+                expect(validity.___validationResults.map((err: any) => err.message))
+                    .to.deep.equal(['test3', 'test4']);
             }
         );
 
@@ -450,6 +499,222 @@ describe('schema-wrapper', () => {
             expect((validity.___validationResults[0] as any).message).to.equal('test2');
         });
 
+        it('resolve should not execute resolver if validation fails in block mode', async () => {
+            FieldValidationDefinitions['$'] = [() => {return new Error('test3')}];
+            let called = false;
+            const resolve = function (...args: any[]) {
+                called = true;
+                return true;
+            };
+            const field = { resolve, name: 'Test' };
+
+            const type = new GraphQLObjectType([field], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema, {
+                wrapErrors: false,
+                enableProfiling: false,
+                enforcementMode: 'block'
+            });
+
+            const validity = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: false,
+                ___profilingData: []
+            };
+
+            const result = await field.resolve(
+                {
+                    parentType: 'Test',
+                    path: { prev: { prev: undefined, key: 'parent' }, key: 'Test' },
+                    rootValue: {
+                        __graphQLValidity: validity
+                    }
+                });
+
+            expect(result).to.be.null;
+            expect(called).to.be.false;
+            expect(validity.___validationResults.length).to.equal(1);
+            expect((validity.___validationResults[0] as any).path)
+                .to.deep.equal(['parent', 'Test']);
+        });
+
+        it('resolve should not execute resolver if validation promise fails in block mode', async () => {
+            FieldValidationDefinitions['$'] = [() => {
+                return new Promise((resolve) => {
+                    resolve([new Error('test3')]);
+                });
+            }];
+            let called = false;
+            const resolve = function (...args: any[]) {
+                called = true;
+                return true;
+            };
+            const field = { resolve, name: 'Test' };
+
+            const type = new GraphQLObjectType([field], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema, {
+                wrapErrors: false,
+                enableProfiling: true,
+                profilingResultHandler: () => {},
+                enforcementMode: 'block'
+            });
+
+            const validity = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: false,
+                ___profilingData: []
+            };
+
+            const result = await field.resolve(
+                {
+                    parentType: 'Test',
+                    rootValue: {
+                        __graphQLValidity: validity
+                    }
+                });
+
+            expect(result).to.be.null;
+            expect(called).to.be.false;
+            expect(validity.___validationResults.length).to.equal(1);
+            expect(validity.___profilingData.length).to.equal(1);
+        });
+
+        it('resolve should execute resolver in block mode if validation passes', async () => {
+            FieldValidationDefinitions['$'] = [() => []];
+            const resolve = function (...args: any[]) {
+                return true;
+            };
+            const field = { resolve, name: 'Test' };
+
+            const type = new GraphQLObjectType([field], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema, {
+                wrapErrors: false,
+                enableProfiling: false,
+                enforcementMode: 'block'
+            });
+
+            const validity = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: false,
+                ___profilingData: []
+            };
+
+            const result = await field.resolve(
+                {
+                    parentType: 'Test',
+                    rootValue: {
+                        __graphQLValidity: validity
+                    }
+                });
+
+            expect(result).to.be.true;
+        });
+
+        it('resolve should execute resolver in block mode if validators return warnings only', async () => {
+            FieldValidationDefinitions['$'] = [() => [new ValidityWarning('test5')]];
+            const resolve = function (...args: any[]) {
+                return true;
+            };
+            const field = { resolve, name: 'Test' };
+
+            const type = new GraphQLObjectType([field], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema, {
+                wrapErrors: false,
+                enableProfiling: false,
+                enforcementMode: 'block'
+            });
+
+            const validity = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: false,
+                ___profilingData: []
+            };
+
+            const result = await field.resolve(
+                {
+                    parentType: 'Test',
+                    rootValue: {
+                        __graphQLValidity: validity
+                    }
+                });
+
+            expect(result).to.be.true;
+            expect(validity.___validationResults.length).to.equal(1);
+        });
+
+        it('resolve should attach field path and locations to validation results', async () => {
+            FieldValidationDefinitions['$'] = [() => {return new Error('test4')}];
+            const resolve = function (...args: any[]) {
+                return true;
+            };
+            const field = { resolve, name: 'Test' };
+
+            const type = new GraphQLObjectType([field], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema);
+
+            const validity = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: false,
+                ___profilingData: []
+            };
+
+            await field.resolve(
+                {
+                    parentType: 'Test',
+                    path: { prev: undefined, key: 'Test' },
+                    fieldNodes: [{ loc: { start: 2, source: { body: '{ Test }' } } }],
+                    rootValue: {
+                        __graphQLValidity: validity
+                    }
+                });
+
+            const error: any = validity.___validationResults[0];
+            expect(error.path).to.deep.equal(['Test']);
+            expect(error.locations).to.deep.equal([{ line: 1, column: 3 }]);
+        });
+
+        it('resolve should not modify validation results returned by validators', async () => {
+            const sharedError = new Error('shared');
+            FieldValidationDefinitions['Test'] = [() => sharedError];
+            const resolve = function (...args: any[]) {
+                return true;
+            };
+            const first = { resolve, name: 'first' };
+            const second = { resolve, name: 'second' };
+
+            const type = new GraphQLObjectType([first, second], 'Test');
+            const schema = new GraphQLSchema({ 'Test': type });
+            wrapResolvers(schema);
+
+            const validity: any = {
+                ___validationResults: [],
+                ___globalValidationResultsCaptured: true,
+                ___profilingData: []
+            };
+            const info = (key: string) => ({
+                parentType: 'Test',
+                path: { prev: undefined, key },
+                rootValue: {
+                    __graphQLValidity: validity
+                }
+            });
+
+            await first.resolve({}, {}, {}, info('first'));
+            await second.resolve({}, {}, {}, info('second'));
+
+            const paths = validity.___validationResults.map((error: any) => error.path);
+            expect(paths).to.deep.equal([['first'], ['second']]);
+            expect(validity.___validationResults[0].message).to.equal('shared');
+            expect(validity.___validationResults[0]).to.be.instanceof(Error);
+            expect((sharedError as any).path).to.be.undefined;
+
+            delete FieldValidationDefinitions['Test'];
+        });
+
         it('shouldn\'t replace resolver for type not implementing getFields', async () => {
             FieldValidationDefinitions['$'] = [() => {
                 return new Promise((resolve) => {
@@ -553,6 +818,625 @@ describe('schema-wrapper', () => {
             expect(field2.resolve).to.not.equal(resolve2);
         });
     });
+
+    describe('wrapDefaultResolvers', () => {
+        it('should not wrap fields without resolver by default', () => {
+            const field: any = { name: 'email' };
+            wrapResolvers(field);
+
+            expect(field.resolve).to.be.undefined;
+        });
+
+        it('should validate fields served by default resolver if enabled', async () => {
+            const validity = createValidity({
+                wrapErrors: false,
+                enableProfiling: false,
+                wrapDefaultResolvers: true
+            });
+            validity.FieldValidationDefinitions['User:email'] = [() => new Error('email')];
+            validity.FieldValidationDefinitions['User:name'] = [() => []];
+
+            const email: any = { name: 'email' };
+            const name: any = { name: 'name' };
+            validity.wrapResolvers(new GraphQLObjectType([email, name], 'User'));
+
+            const requestValidity = { ___validationResults: [] };
+            const source = { email: 'test@test.com', name: () => 'test' };
+
+            const emailResult = await email.resolve(source, {}, {}, {
+                fieldName: 'email',
+                parentType: 'User',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+            const nameResult = await name.resolve(source, {}, {}, {
+                fieldName: 'name',
+                parentType: 'User',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+
+            expect(emailResult).to.equal('test@test.com');
+            expect(nameResult).to.equal('test');
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['email']);
+        });
+    });
+
+    describe('interfaces and unions', () => {
+        it('should apply interface field validators to implementing types', async () => {
+            const validity = createValidity();
+            validity.FieldValidationDefinitions['Node:id'] = [() => new Error('id')];
+            validity.FieldValidationDefinitions['=>SearchResult'] = [() => new Error('search')];
+
+            const interfaceField: any = { name: 'id', type: 'ID' };
+            const node = new GraphQLInterfaceType([interfaceField], 'Node');
+            (node as any).getFields = () => ({ id: interfaceField });
+            const idField: any = { name: 'id', type: 'ID', resolve: (...args: any[]) => '1' };
+            const user = new GraphQLObjectType([idField], 'User');
+            (user as any).getInterfaces = () => [node];
+            const userField: any = { name: 'user', type: user, resolve: (...args: any[]) => ({}) };
+            const searchResult = { name: 'SearchResult', getTypes: () => [user] };
+            const searchField: any = {
+                name: 'search',
+                type: { ofType: searchResult },
+                resolve: (...args: any[]) => []
+            };
+            const query = new GraphQLObjectType([userField, searchField], 'Query');
+
+            validity.wrapResolvers(new GraphQLSchema({
+                Node: node,
+                User: user,
+                Query: query,
+                SearchResult: searchResult
+            }), {
+                wrapErrors: false,
+                enableProfiling: false,
+                wrapDefaultResolvers: true
+            });
+
+            const requestValidity = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            await idField.resolve({}, {}, {}, {
+                parentType: 'User',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+            await userField.resolve({}, {}, {}, {
+                parentType: 'Query',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+            await searchField.resolve({}, {}, {}, {
+                parentType: 'Query',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+
+            expect(interfaceField.resolve).to.be.undefined;
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['id', 'search']);
+        });
+    });
+
+    describe('@validate directive', () => {
+        it('should register argument validators declared with directive', async () => {
+            const validity = createValidity();
+            const field: any = {
+                name: 'createUser',
+                type: 'User',
+                args: [{
+                    name: 'email',
+                    astNode: {
+                        directives: [{
+                            name: { value: 'validate' },
+                            arguments: [{
+                                name: { value: 'format' },
+                                value: { kind: 'StringValue', value: 'email' }
+                            }]
+                        }]
+                    }
+                }],
+                resolve: (...args: any[]) => true
+            };
+
+            validity.wrapResolvers(new GraphQLSchema({
+                Mutation: new GraphQLObjectType([field], 'Mutation')
+            }));
+
+            expect(validity.validatorRegistry.forArgument('Mutation', 'createUser', 'email').list().length)
+                .to.equal(1);
+
+            const requestValidity = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            await field.resolve({}, { email: 'test' }, {}, {
+                parentType: 'Mutation',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+
+            expect(requestValidity.___validationResults.map((err: any) => err.code))
+                .to.deep.equal(['INVALID_EMAIL']);
+        });
+
+        it('should register directives of fields without resolvers once', () => {
+            const validity = createValidity();
+            const field: any = {
+                name: 'email',
+                type: 'String',
+                astNode: {
+                    directives: [{
+                        name: { value: 'validate' },
+                        arguments: [{
+                            name: { value: 'maxLength' },
+                            value: { kind: 'IntValue', value: '10' }
+                        }]
+                    }]
+                }
+            };
+            const schema = new GraphQLSchema({
+                User: new GraphQLObjectType([field], 'User')
+            });
+
+            validity.wrapResolvers(schema);
+            validity.wrapResolvers(schema);
+            validity.wrapResolvers(schema);
+
+            expect(field.resolve).to.be.undefined;
+            expect(validity.validatorRegistry.forField('User', 'email').list().length)
+                .to.equal(1);
+        });
+    });
+
+    describe('@validate directive on input fields', () => {
+        it('should register input field validators declared with directive', () => {
+            const validity = createValidity();
+            const input = new GraphQLInputObjectType('OrderItemInput', {
+                quantity: {
+                    name: 'quantity',
+                    astNode: {
+                        directives: [{
+                            name: { value: 'validate' },
+                            arguments: [{
+                                name: { value: 'min' },
+                                value: { kind: 'IntValue', value: '1' }
+                            }]
+                        }]
+                    }
+                }
+            });
+
+            validity.wrapResolvers(new GraphQLSchema({ OrderItemInput: input }));
+            validity.wrapResolvers(new GraphQLSchema({ OrderItemInput: input }));
+
+            expect(validity.validatorRegistry.forInputField('OrderItemInput', 'quantity').list().length)
+                .to.equal(1);
+        });
+    });
+
+    describe('async validators', () => {
+        const info = (requestValidity: any) => ({
+            parentType: 'Test',
+            rootValue: { __graphQLValidity: requestValidity }
+        });
+        const delay = (time: number, result: any) =>
+            () => new Promise(resolve => setTimeout(() => resolve(result), time));
+
+        it('should settle validators concurrently keeping their order', async () => {
+            const validity = createValidity();
+            validity.FieldValidationDefinitions['Test:test'] = [
+                delay(40, new Error('first')),
+                delay(40, new Error('second'))
+            ];
+
+            const field: any = { name: 'test', resolve: (...args: any[]) => true };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const start = Date.now();
+            await field.resolve({}, {}, {}, info(requestValidity));
+
+            expect(Date.now() - start).to.be.below(75);
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['first', 'second']);
+        });
+
+        it('should report timeout errors for slow validators', async () => {
+            const validity = createValidity({
+                wrapErrors: false,
+                enableProfiling: false,
+                validatorTimeout: 10,
+                fieldValidationTimeout: 50
+            });
+            validity.FieldValidationDefinitions['Test:test'] = [
+                delay(100, new Error('slow')),
+                delay(1, new Error('fast'))
+            ];
+
+            const field: any = { name: 'test', resolve: (...args: any[]) => true };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            await field.resolve({}, {}, {}, info(requestValidity));
+
+            const results = requestValidity.___validationResults;
+            expect(results.map((err: any) => err.code)).to.deep.equal(['VALIDATION_TIMEOUT', undefined]);
+            expect(results[0].extensions).to.deep.equal({ timeout: 10, code: 'VALIDATION_TIMEOUT' });
+        });
+
+        it('should apply field timeout and pass policy', async () => {
+            const validity = createValidity({
+                wrapErrors: false,
+                enableProfiling: false,
+                fieldValidationTimeout: 10,
+                timeoutPolicy: 'pass',
+                enforcementMode: 'block'
+            });
+            validity.FieldValidationDefinitions['Test:test'] = [delay(100, new Error('slow'))];
+
+            const field: any = { name: 'test', resolve: (...args: any[]) => true };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(await field.resolve({}, {}, {}, info(requestValidity))).to.be.true;
+            expect(requestValidity.___validationResults).to.deep.equal([]);
+        });
+    });
+
+    describe('validation context', () => {
+        it('should be passed to validators as the last argument', async () => {
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false, enforcementMode: 'block' });
+            validity.FieldValidationDefinitions['Mutation:createUser'] = [
+                (parent: any, args: any, context: any, info: any, validation: any) => {
+                    validation.store.set('checked', validation.fieldName);
+                    validation.warn('deprecated');
+                }
+            ];
+            validity.FieldValidationDefinitions['Mutation:createUser(email)'] = [
+                (value: any, context: any, info: any, validation: any) => {
+                    validation.report(`${value} ${validation.store.get('checked')}`, 'BAD_EMAIL');
+                }
+            ];
+
+            const field: any = { name: 'createUser', args: [{ name: 'email' }], resolve: (...args: any[]) => true };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const result = await field.resolve({}, { email: 'test' }, {}, {
+                parentType: 'Mutation',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+
+            expect(result).to.be.null;
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['deprecated', 'test createUser']);
+        });
+    });
+
+    describe('memoized validators', () => {
+        it('should block every field sharing memoized error', async () => {
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false, enforcementMode: 'block' });
+            const validator = sinon.spy(async () => [new Error('not owner')]);
+            validity.validatorRegistry.forType('Order').add(
+                memoize(validator, (parent: any) => parent.ownerId)
+            );
+
+            const field: any = { name: 'total', resolve: (...args: any[]) => 10 };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const info = { parentType: 'Order', rootValue: { __graphQLValidity: requestValidity } };
+            expect(await field.resolve({ ownerId: 1 }, {}, {}, info)).to.be.null;
+            expect(await field.resolve({ ownerId: 1 }, {}, {}, info)).to.be.null;
+
+            expect(validator.calledOnce).to.be.true;
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['not owner', 'not owner']);
+        });
+    });
+
+    describe('audit mode', () => {
+        it('should pass audited failures to the handler without blocking', async () => {
+            const auditHandler = sinon.spy();
+            const validity = createValidity({
+                wrapErrors: false,
+                enableProfiling: false,
+                enforcementMode: 'block',
+                auditHandler
+            });
+            validity.validatorRegistry.forField('Mutation', 'transfer')
+                .audit((parent: any, args: any) => args.amount > 100 ? new Error('too much') : []);
+
+            const field: any = { name: 'transfer', resolve: (...args: any[]) => true };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(await field.resolve({}, { amount: 200 }, {}, {
+                parentType: 'Mutation',
+                path: { key: 'transfer' },
+                rootValue: { __graphQLValidity: requestValidity, __graphQLValidityRequestId: 'request' }
+            })).to.be.true;
+
+            expect(requestValidity.___validationResults).to.deep.equal([]);
+            expect(auditHandler.calledOnce).to.be.true;
+            expect(auditHandler.firstCall.args[0].requestId).to.equal('request');
+            expect(auditHandler.firstCall.args[0].path).to.deep.equal(['transfer']);
+            expect(auditHandler.firstCall.args[0].error.message).to.equal('too much');
+        });
+
+        it('should audit output validators with the resolved value', async () => {
+            const auditHandler = sinon.spy();
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false, auditHandler });
+            const resolver = sinon.spy((...args: any[]) => -10);
+            const validator = sinon.spy((value: any) => value < 0 ? [new Error('negative')] : []);
+            validity.validatorRegistry.forField('Account', 'balance').audit(output(validator));
+
+            const field: any = { name: 'balance', resolve: resolver };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(await field.resolve({}, {}, {}, {
+                parentType: 'Account',
+                path: { key: 'balance' },
+                rootValue: { __graphQLValidity: requestValidity }
+            })).to.equal(-10);
+
+            expect(validator.calledOnce).to.be.true;
+            expect(validator.calledAfter(resolver)).to.be.true;
+            expect(validator.firstCall.args[0]).to.equal(-10);
+            expect(requestValidity.___validationResults).to.deep.equal([]);
+            expect(auditHandler.firstCall.args[0].error.message).to.equal('negative');
+        });
+    });
+
+    describe('output validators', () => {
+        const info = (requestValidity: any) => ({
+            parentType: 'Account',
+            path: { key: 'balance' },
+            rootValue: { __graphQLValidity: requestValidity }
+        });
+
+        it('should validate resolved values and keep them in report mode', async () => {
+            const validity = createValidity();
+            const validator = sinon.spy((value: any) => value < 0 ? [new Error('negative')] : []);
+            validity.validatorRegistry.forField('Account', 'balance').add(output(validator));
+
+            const field: any = { name: 'balance', resolve: async (...args: any[]) => -10 };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const context = {};
+            expect(await field.resolve({}, {}, context, info(requestValidity))).to.equal(-10);
+
+            expect(validator.firstCall.args[0]).to.equal(-10);
+            expect(validator.firstCall.args[1]).to.equal(context);
+            expect(requestValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['negative']);
+            expect(requestValidity.___validationResults[0].path).to.deep.equal(['balance']);
+        });
+
+        it('should replace value with null on errors if required', async () => {
+            const validity = createValidity();
+            validity.validatorRegistry.forField('Account', 'balance').add(
+                output(async (value: any) => new Error('negative'), { nullOnError: true })
+            );
+
+            const field: any = { name: 'balance', resolve: (...args: any[]) => -10 };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(await field.resolve({}, {}, {}, info(requestValidity))).to.be.null;
+            expect(requestValidity.___validationResults.length).to.equal(1);
+        });
+
+        it('should replace value with null in block mode', () => {
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false, enforcementMode: 'block' });
+            validity.validatorRegistry.forField('Account', 'balance').add(
+                output((value: any) => value < 0 ? new Error('negative') : [])
+            );
+
+            const field: any = { name: 'balance', resolve: (...args: any[]) => -10 };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(field.resolve({}, {}, {}, info(requestValidity))).to.be.null;
+        });
+
+        it('should register output validators declared with directive on fields', () => {
+            const validity = createValidity();
+            const field: any = {
+                name: 'balance',
+                type: 'Float',
+                astNode: {
+                    directives: [{
+                        name: { value: 'validate' },
+                        arguments: [{
+                            name: { value: 'min' },
+                            value: { kind: 'IntValue', value: '0' }
+                        }]
+                    }]
+                },
+                resolve: (...args: any[]) => -10
+            };
+
+            validity.wrapResolvers(new GraphQLSchema({
+                Account: new GraphQLObjectType([field], 'Account')
+            }));
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(field.resolve({}, {}, {}, info(requestValidity))).to.equal(-10);
+            expect(requestValidity.___validationResults.map((err: any) => err.code))
+                .to.deep.equal(['VALUE_TOO_SMALL']);
+        });
+    });
+
+    describe('authorization', () => {
+        it('should block resolution of denied fields in report mode', async () => {
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false });
+            const resolver = sinon.spy(() => true);
+            validity.validatorRegistry.forField('Mutation', 'deleteUser').add(requireRoles('admin'));
+
+            const field: any = { name: 'deleteUser', resolve: resolver };
+            validity.wrapResolvers(field);
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const result = await field.resolve({}, {}, { user: { roles: ['user'] } }, {
+                parentType: 'Mutation',
+                rootValue: { __graphQLValidity: requestValidity }
+            });
+
+            expect(result).to.be.null;
+            expect(resolver.called).to.be.false;
+            expect(requestValidity.___validationResults[0].code).to.equal('FORBIDDEN');
+        });
+
+        it('should deny guarded fields resolved without validity state', async () => {
+            const validity = createValidity({ wrapErrors: false, enableProfiling: false });
+            const resolver = sinon.spy(() => true);
+            const consoleError = sinon.stub(console, 'error');
+            validity.validatorRegistry.forField('Mutation', 'deleteUser').add(requireRoles('admin'));
+            validity.validatorRegistry.forField('Mutation', 'login').add(() => []);
+
+            const deleteUser: any = { name: 'deleteUser', resolve: resolver };
+            const login: any = { name: 'login', resolve: resolver };
+            validity.wrapResolvers(deleteUser);
+            validity.wrapResolvers(login);
+
+            try {
+                const context = { user: { roles: ['admin'] } };
+                const info = { parentType: 'Mutation', rootValue: {} };
+
+                expect(() => deleteUser.resolve({}, {}, context, info))
+                    .to.throw('Not authorized to access this field');
+                expect(() => deleteUser.resolve({}, {}, context, info))
+                    .to.throw('Not authorized to access this field');
+                expect(login.resolve({}, {}, context, info)).to.be.true;
+                expect(resolver.calledOnce).to.be.true;
+                expect(consoleError.calledOnce).to.be.true;
+                expect(consoleError.firstCall.args[0]).to.contain('Mutation:deleteUser');
+            }
+            finally {
+                consoleError.restore();
+            }
+        });
+    });
+
+    describe('operation validators', () => {
+        const info = (requestValidity: any) => ({
+            parentType: 'Query',
+            rootValue: { __graphQLValidity: requestValidity },
+            operation: {
+                operation: 'query',
+                name: { value: 'GetUsers' },
+                loc: { start: 0, source: { body: 'query GetUsers { users }' } }
+            },
+            variableValues: { first: 10 }
+        });
+
+        it('should run once and reject the operation before any resolver', async () => {
+            const validity = createValidity();
+            const operationValidator = sinon.spy(() => new Error('not allowed'));
+            const resolver = sinon.spy(() => true);
+            validity.validatorRegistry.forOperation().add(operationValidator);
+
+            const first: any = { name: 'first', resolve: resolver };
+            const second: any = { name: 'second', resolve: resolver };
+            validity.wrapResolvers(new GraphQLSchema({
+                Query: new GraphQLObjectType([first, second], 'Query')
+            }));
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            expect(await first.resolve({}, {}, {}, info(requestValidity))).to.be.null;
+            expect(await second.resolve({}, {}, {}, info(requestValidity))).to.be.null;
+
+            expect(operationValidator.calledOnce).to.be.true;
+            expect(resolver.called).to.be.false;
+            expect(requestValidity.___operationRejected).to.be.true;
+            expect(requestValidity.___validationResults.length).to.equal(1);
+            expect(requestValidity.___validationResults[0].locations)
+                .to.deep.equal([{ line: 1, column: 1 }]);
+        });
+
+        it('should pass operation data and let fields resolve if operation is valid', async () => {
+            const validity = createValidity();
+            const operationValidator = sinon.spy(async () => []);
+            validity.FieldValidationDefinitions['$operation'] = [operationValidator];
+
+            const field: any = { name: 'users', resolve: (...args: any[]) => 'users' };
+            validity.wrapResolvers(new GraphQLSchema({
+                Query: new GraphQLObjectType([field], 'Query')
+            }));
+
+            const requestValidity: any = { ___validationResults: [], ___globalValidationResultsCaptured: true };
+            const context = { user: 'admin' };
+            expect(await field.resolve({}, {}, context, info(requestValidity))).to.equal('users');
+
+            const operation = operationValidator.firstCall.args[0];
+            expect(operation.operationName).to.equal('GetUsers');
+            expect(operation.operationType).to.equal('query');
+            expect(operation.variables).to.deep.equal({ first: 10 });
+            expect(operation.context).to.equal(context);
+            expect(requestValidity.___operationRejected).to.be.false;
+        });
+    });
+
+    describe('createValidity', () => {
+        it('should return instance with its own definitions and middleware', () => {
+            const first = createValidity();
+            const second = createValidity();
+
+            expect(first.FieldValidationDefinitions).to.not.equal(second.FieldValidationDefinitions);
+            expect(first.FieldValidationDefinitions).to.not.equal(FieldValidationDefinitions);
+            expect(first.graphQLValidityExpressMiddleware).to.not.equal(second.graphQLValidityExpressMiddleware);
+            expect(first.graphQLValidityKoaMiddleware).to.be.a('function');
+            expect(first.graphQLValidityHapiMiddleware).to.be.a('function');
+        });
+
+        it('should apply only validators of the instance which wrapped the field', async () => {
+            FieldValidationDefinitions['$'] = [() => new Error('global')];
+            const first = createValidity();
+            const second = createValidity();
+            first.FieldValidationDefinitions['Test:first'] = [() => new Error('first')];
+            second.FieldValidationDefinitions['Test:second'] = [() => new Error('second')];
+
+            const firstField = { resolve: (...args: any[]) => true, name: 'first' };
+            const secondField = { resolve: (...args: any[]) => true, name: 'second' };
+            first.wrapResolvers(new GraphQLSchema({
+                'Test': new GraphQLObjectType([firstField], 'Test')
+            }));
+            second.wrapResolvers(new GraphQLSchema({
+                'Test': new GraphQLObjectType([secondField], 'Test')
+            }));
+
+            const firstValidity = { ___validationResults: [], ___globalValidationResultsCaptured: false };
+            const secondValidity = { ___validationResults: [], ___globalValidationResultsCaptured: false };
+
+            await firstField.resolve(<any>{
+                parentType: 'Test',
+                rootValue: { __graphQLValidity: firstValidity }
+            });
+            await secondField.resolve(<any>{
+                parentType: 'Test',
+                rootValue: { __graphQLValidity: secondValidity }
+            });
+
+            expect(firstValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['first']);
+            expect(secondValidity.___validationResults.map((err: any) => err.message))
+                .to.deep.equal(['second']);
+        });
+
+        it('should use instance config if no config passed to wrapResolvers', async () => {
+            const validity = createValidity({
+                wrapErrors: false,
+                enableProfiling: false,
+                enforcementMode: 'block'
+            });
+            validity.FieldValidationDefinitions['Test:test'] = [() => new Error('test')];
+
+            const field = { resolve: (...args: any[]) => true, name: 'test' };
+            validity.wrapResolvers(field);
+
+            const result = await field.resolve(<any>{
+                parentType: 'Test',
+                rootValue: { __graphQLValidity: { ___validationResults: [] } }
+            });
+
+            expect(result).to.be.null;
+        });
+    });
 });
 
 class GraphQLObjectTypeWithoutFields {
@@ -579,6 +1463,21 @@ class GraphQLObjectType {
 }
 
 
+class GraphQLInterfaceType extends GraphQLObjectType {
+    constructor(public fields: any[], public name: string) {
+        super(fields, name);
+    }
+}
+
+class GraphQLInputObjectType {
+    constructor(public name: string, private fields: any) {
+    }
+
+    getFields() {
+        return this.fields;
+    }
+}
+
 class GraphQLObjectType2 extends GraphQLObjectType {
     constructor(public fields: any[], public name: string) {
         super(fields, name);
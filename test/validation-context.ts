@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+
+import { ValidationContext } from '../src/validation-context';
+import {
+    ValidityError,
+    ValidityWarning
+} from '../src/helpers';
+
+describe('validation-context', () => {
+    const config = { wrapErrors: false, enableProfiling: false };
+    let validity: any;
+    let results: any[];
+    let context: ValidationContext;
+
+    beforeEach(() => {
+        validity = { ___validationResults: [] };
+        results = [];
+        context = new ValidationContext({
+            fieldName: 'email',
+            parentTypeName: 'User',
+            validity,
+            astPath: { prev: { prev: { key: 'users' }, key: 0 }, key: 'email' }
+        }, config, results);
+    });
+
+    describe('ValidationContext', () => {
+        it('should expose field data and config', () => {
+            expect(context.fieldName).to.equal('email');
+            expect(context.parentTypeName).to.equal('User');
+            expect(context.path).to.deep.equal(['users', 0, 'email']);
+            expect(context.validity).to.equal(validity);
+            expect(context.config).to.equal(config);
+        });
+
+        it('should add reported errors and warnings to the field results', () => {
+            const error = new Error('error');
+            context.report(error);
+            context.report('invalid', 'INVALID');
+            context.warn('deprecated', 'DEPRECATED');
+            context.inform('info');
+
+            expect(results[0]).to.equal(error);
+            expect(results[1]).to.be.instanceof(ValidityError);
+            expect(results[1].code).to.equal('INVALID');
+            expect(results[2]).to.be.instanceof(ValidityWarning);
+            expect(results.map(result => result.severity))
+                .to.deep.equal([undefined, 'error', 'warning', 'info']);
+        });
+
+        it('should share store within the request', () => {
+            context.store.set('user', 1);
+
+            const other = new ValidationContext({ fieldName: 'name', validity }, config, []);
+            expect(other.store.get('user')).to.equal(1);
+        });
+    });
+});
@@ -3,14 +3,18 @@ import * as sinon from "sinon";
 
 import {
     FieldValidationDefinitions,
+    getFieldTargets,
     getResponseValidationResults,
     getValidationResults,
     getValidators,
     applyValidation,
+    ValidationTargets
 } from '../src/validation';
 
 import {
-    ValidityError
+    ValidityError,
+    ValidityInfo,
+    ValidityWarning
 } from '../src/helpers';
 
 describe('validation', () => {
@@ -20,6 +24,14 @@ describe('validation', () => {
             FieldValidationDefinitions['*'] = [() => {return new Error('test2')}];
             FieldValidationDefinitions['TestObj'] = [() => {return new Error('test3')}];
             FieldValidationDefinitions['TestObj:TestField'] = [() => {return new Error('test4')}];
+            FieldValidationDefinitions['=>TestType'] = [() => {return new Error('test5')}];
+        });
+
+        after(() => {
+            delete FieldValidationDefinitions['*'];
+            delete FieldValidationDefinitions['TestObj'];
+            delete FieldValidationDefinitions['TestObj:TestField'];
+            delete FieldValidationDefinitions['=>TestType'];
         });
 
         it('Should return object with arrays for both ' +
@@ -29,7 +41,242 @@ describe('validation', () => {
                 name: 'TestField'
             }, 'TestObj', { ___globalValidationResultsCaptured: false });
 
-            expect(result.length).to.be.equal(3);
+            expect(result.length).to.be.equal(4);
+        });
+
+        it('Should apply Type validators to fields of the parent type only', () => {
+            let result = getValidators({
+                type: 'TestObj',
+                name: 'TestField'
+            }, 'OtherObj', { ___globalValidationResultsCaptured: true });
+
+            expect(result.map((validator: any) => validator().message)).to.deep.equal(['test2']);
+        });
+
+        it('Should apply return type validators to list and non-null wrapped types', () => {
+            const type = { ofType: { ofType: { ofType: { name: 'TestType' } } } };
+            let result = getValidators({
+                type,
+                name: 'TestField'
+            }, 'OtherObj', { ___globalValidationResultsCaptured: true });
+
+            expect(result.map((validator: any) => validator().message)).to.deep.equal(['test2', 'test5']);
+
+            result = getValidators({
+                type: '[TestType!]!',
+                name: 'TestField'
+            }, 'OtherObj', { ___globalValidationResultsCaptured: true });
+
+            expect(result.length).to.equal(2);
+        });
+    });
+
+    describe('getFieldTargets', () => {
+        const node = { name: 'Node', getFields: () => ({ id: {} }) };
+        const timestamped = { name: 'Timestamped', getFields: () => ({ createdAt: {} }) };
+        const user = { name: 'User', getInterfaces: () => [node, timestamped] };
+
+        it('should return interfaces declaring the field', () => {
+            const result = getFieldTargets(user, { name: 'id', type: 'String' });
+            expect(result.interfaceNames).to.deep.equal(['Node']);
+        });
+
+        it('should return returned type with its interfaces', () => {
+            const result = getFieldTargets(
+                { name: 'Query' },
+                { name: 'user', type: { ofType: user } }
+            );
+            expect(result.returnTypeNames).to.deep.equal(['User', 'Node', 'Timestamped']);
+        });
+
+        it('should match unions only by fields returning the union itself', () => {
+            const searchResult = { name: 'SearchResult', getTypes: () => [user] };
+            const query = { name: 'Query' };
+
+            expect(getFieldTargets(query, { name: 'search', type: { ofType: searchResult } }).returnTypeNames)
+                .to.deep.equal(['SearchResult']);
+            expect(getFieldTargets(query, { name: 'user', type: user }).returnTypeNames)
+                .to.not.include('SearchResult');
+        });
+
+        it('should be used by getValidators', () => {
+            const definitions = {
+                'Node:id': [() => new Error('id')],
+                'Timestamped': [() => new Error('timestamped')],
+                '=>SearchResult': [() => new Error('search')]
+            };
+            const field = {
+                name: 'id',
+                type: 'User',
+                [ValidationTargets]: {
+                    interfaceNames: ['Node', 'Timestamped'],
+                    returnTypeNames: ['User', 'SearchResult'],
+                    inputKeys: {}
+                }
+            };
+
+            const result = getValidators(field, 'User', { ___globalValidationResultsCaptured: true }, definitions);
+            expect(result.map((validator: any) => validator().message))
+                .to.deep.equal(['timestamped', 'search', 'id']);
+        });
+    });
+
+    describe('argument validators', () => {
+        const field = {
+            name: 'createUser',
+            type: 'User',
+            args: [{ name: 'email' }, { name: 'name' }]
+        };
+        const validity = { ___globalValidationResultsCaptured: true };
+
+        it('should pass argument value and context to argument validators', () => {
+            const definitions = {
+                'Mutation:createUser(email)': [(value: any, context: any) => {
+                    return new ValidityError(`${value} ${context.user}`, 'BAD_EMAIL');
+                }]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            const result = validators[0]({}, { email: 'test' }, { user: 'admin' }, {});
+
+            expect(result.length).to.equal(1);
+            expect(result[0].message).to.equal('test admin');
+            expect(result[0].extensions).to.deep.equal({ argument: 'email', code: 'BAD_EMAIL' });
+        });
+
+        it('should not run argument validators if argument is not passed', () => {
+            const definitions = {
+                'Mutation:createUser(name)': [() => new Error('name')]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            expect(validators[0]({}, { email: 'test' }, {}, {})).to.be.undefined;
+        });
+
+        it('should attach argument name to async validator results', async () => {
+            const definitions = {
+                'Mutation:createUser(email)': [async () => [new Error('email')]]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            const result = await validators[0]({}, { email: 'test' }, {}, {});
+            expect(result[0].extensions).to.deep.equal({ argument: 'email' });
+        });
+    });
+
+    describe('input validators', () => {
+        let field: any;
+        const validity = { ___globalValidationResultsCaptured: true };
+        const args = { input: { items: [{ quantity: 1 }, { quantity: -1 }] } };
+
+        before(() => {
+            const orderItemInput = new GraphQLInputObjectType('OrderItemInput', {
+                quantity: { type: 'Int' }
+            });
+            const createOrderInput = new GraphQLInputObjectType('CreateOrderInput', {
+                items: { type: new GraphQLList(new GraphQLNonNull(orderItemInput)) }
+            });
+
+            field = {
+                name: 'createOrder',
+                type: 'Order',
+                args: [{ name: 'input', type: new GraphQLNonNull(createOrderInput) }]
+            };
+        });
+
+        it('should apply input field validators recursively with argument path', () => {
+            const definitions = {
+                'OrderItemInput:quantity': [(value: any) => {
+                    if (value < 0) {
+                        return new ValidityError('negative', 'NEGATIVE');
+                    }
+                }]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            const result = validators[0]({}, args, {}, {});
+
+            expect(result.length).to.equal(1);
+            expect(result[0].message).to.equal('negative');
+            expect(result[0].extensions).to.deep.equal({
+                argument: 'input',
+                argumentPath: ['input', 'items', 1, 'quantity'],
+                code: 'NEGATIVE'
+            });
+        });
+
+        it('should apply input type validators to each input object value', async () => {
+            const definitions = {
+                'OrderItemInput': [async (value: any) => new Error(`${value.quantity}`)]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            const result = await validators[0]({}, args, {}, {});
+
+            expect(result.map((err: any) => err.message)).to.deep.equal(['1', '-1']);
+            expect(result[0].extensions.argumentPath).to.deep.equal(['input', 'items', 0]);
+        });
+
+        it('should apply scalar validators to arguments and input fields', () => {
+            const email = new GraphQLScalarType('Email');
+            const contactInput = new GraphQLInputObjectType('ContactInput', {
+                emails: { type: new GraphQLList(email) }
+            });
+            const definitions = {
+                'Email': [(value: any) => /@/.test(value) ? [] : [new Error(value)]]
+            };
+            const field = {
+                name: 'invite',
+                type: 'Boolean',
+                args: [
+                    { name: 'email', type: new GraphQLNonNull(email) },
+                    { name: 'contact', type: contactInput },
+                    { name: 'name', type: new GraphQLScalarType('String') }
+                ]
+            };
+
+            const validators = getValidators(field, 'Mutation', validity, definitions);
+            const result = validators[0]({}, {
+                email: 'first',
+                contact: { emails: ['a@b.c', 'second'] },
+                name: 'third'
+            }, {}, {});
+
+            expect(result.map((err: any) => err.message)).to.deep.equal(['first', 'second']);
+            expect(result.map((err: any) => err.extensions.argumentPath)).to.deep.equal([
+                ['email'],
+                ['contact', 'emails', 1]
+            ]);
+        });
+
+        it('should not add input validator if no input definitions exist', () => {
+            const validators = getValidators(field, 'Mutation', validity, {});
+            expect(validators.length).to.equal(0);
+        });
+
+        it('should collect input keys reachable from arguments once per field', () => {
+            expect(getFieldTargets({ name: 'Mutation' }, field).inputKeys).to.deep.equal({
+                input: [
+                    'CreateOrderInput',
+                    'CreateOrderInput:items',
+                    'OrderItemInput',
+                    'OrderItemInput:quantity'
+                ]
+            });
+        });
+
+        it('should reuse input and argument validators between calls', () => {
+            const definitions = {
+                'OrderItemInput:quantity': [() => []],
+                'Mutation:createOrder(input)': [() => []]
+            };
+
+            const first = getValidators(field, 'Mutation', validity, definitions);
+            const second = getValidators(field, 'Mutation', validity, definitions);
+
+            expect(first.length).to.equal(2);
+            expect(second[0]).to.equal(first[0]);
+            expect(second[1]).to.equal(first[1]);
         });
     });
 
@@ -63,6 +310,157 @@ describe('validation', () => {
             expect(result).to.have.string('"errors":[{"message":"test2"},{"message":"test1"}]');
         });
 
+        it('should return path, locations and extensions of validation errors', () => {
+            const error = new ValidityError('test', 'BAD_INPUT', { field: 'email' });
+            error.path = ['users', 0, 'email'];
+            error.locations = [{ line: 3, column: 5 }];
+            const validity = {
+                ___globalValidationResultsCaptured: false,
+                ___validationResults: [error]
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors).to.deep.equal([{
+                message: 'test',
+                locations: [{ line: 3, column: 5 }],
+                path: ['users', 0, 'email'],
+                extensions: { field: 'email', code: 'BAD_INPUT' }
+            }]);
+        });
+
+        it('should output each validation result if errors are not aggregated', () => {
+            const error = new ValidityError('not owner');
+            const validity = {
+                ___globalValidationResultsCaptured: true,
+                ___validationResults: [error, error, new ValidityError('not owner')]
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors.length).to.equal(3);
+        });
+
+        it('should aggregate identical validation errors if configured', () => {
+            const error = (path: any[], code = 'NOT_OWNER') => {
+                const result = new ValidityError('not owner', code);
+                result.path = path;
+                return result;
+            };
+            const validity = {
+                ___globalValidationResultsCaptured: true,
+                ___validationResults: [
+                    error(['orders', 0]),
+                    error(['orders', 1]),
+                    error(['orders', 1], 'OTHER'),
+                    error(['orders', 2])
+                ],
+                config: { wrapErrors: false, aggregateErrors: true }
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors).to.deep.equal([{
+                message: 'not owner',
+                path: ['orders', 0],
+                extensions: {
+                    code: 'NOT_OWNER',
+                    count: 3,
+                    paths: [['orders', 0], ['orders', 1], ['orders', 2]]
+                }
+            }, {
+                message: 'not owner',
+                path: ['orders', 1],
+                extensions: { code: 'OTHER' }
+            }]);
+        });
+
+        it('should limit number of errors with a summary error', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: true,
+                ___validationResults: [new ValidityError('second'), new ValidityError('third')],
+                config: { wrapErrors: false, maxErrors: 2 }
+            };
+
+            const result = JSON.parse(applyValidation(
+                { __graphQLValidity: validity },
+                '{"data": {}, "errors": [{"message": "first"}]}',
+                () => {}
+            ));
+            expect(result.errors).to.deep.equal([
+                { message: 'first' },
+                { message: 'second' },
+                { message: '1 more errors were omitted', extensions: { code: 'TOO_MANY_ERRORS', omitted: 1 } }
+            ]);
+        });
+
+        it('should drop data if operation was rejected', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: true,
+                ___operationRejected: true,
+                ___validationResults: [new ValidityError('rejected')]
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {"users": null}}', () => {}));
+            expect(result.data).to.be.null;
+            expect(result.errors).to.deep.equal([{ message: 'rejected' }]);
+        });
+
+        it('should add operation complexity to response extensions', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: true,
+                ___validationResults: [],
+                ___complexity: { cost: 10, depth: 2 }
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.extensions).to.deep.equal({
+                validity: { complexity: { cost: 10, depth: 2 } }
+            });
+        });
+
+        it('should not expose extensions of masked validation errors', () => {
+            const error: any = new Error('test');
+            error.code = 'SECRET';
+            const validity = {
+                ___globalValidationResultsCaptured: false,
+                ___validationResults: [error],
+                config: {
+                    wrapErrors: true,
+                    unhandledErrorWrapper: () => new Error('masked')
+                }
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors).to.deep.equal([{ message: 'masked' }]);
+        });
+
+        it('should add warnings and info to response extensions without failing', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: false,
+                ___validationResults: [
+                    new ValidityWarning('deprecated', 'DEPRECATED'),
+                    { message: 'limit', severity: 'info' }
+                ]
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors).to.be.undefined;
+            expect(result.extensions.validity).to.deep.equal({
+                warnings: [{ message: 'deprecated', extensions: { code: 'DEPRECATED' } }],
+                info: [{ message: 'limit' }]
+            });
+        });
+
+        it('should keep errors and warnings separated', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: false,
+                ___validationResults: [new ValidityInfo('info'), new Error('error')]
+            };
+
+            const result = JSON.parse(applyValidation({ __graphQLValidity: validity }, '{"data": {}}', () => {}));
+            expect(result.errors).to.deep.equal([{ message: 'error' }]);
+            expect(result.extensions.validity.info).to.deep.equal([{ message: 'info' }]);
+            expect(result.extensions.validity.warnings).to.be.undefined;
+        });
+
         it('should call profiling handler if profiling data is present', async () => {
             const handler = sinon.fake();
             const validity = {
@@ -121,8 +519,8 @@ describe('validation', () => {
     });
 
     describe('processError', () => {
-        it('should return original error, if name is ValidityError or message contains _Validity_', () => {
-            const validationError = new Error('_Validity_ test!');
+        it('should return original error, if it is ValidityError', () => {
+            const validationError = new Error('test2');
             const globalError = new ValidityError('test1');
             const validity = {
                 ___globalValidationResultsCaptured: false,
@@ -132,6 +530,32 @@ describe('validation', () => {
             const data = { data: {}, errors: [new Error('test3')] };
             getResponseValidationResults(validity, data);
             expect(data.errors.length).to.equal(3);
+            expect(data.errors[2].message).to.equal('test1');
+        });
+
+        it('should not mask safe errors when wrapErrors is enabled', () => {
+            const validity = {
+                ___globalValidationResultsCaptured: false,
+                ___validationResults: [new ValidityError('test1')],
+                ___safeErrors: [{ path: 'user.email', message: 'test2' }],
+                config: {
+                    wrapErrors: true,
+                    unhandledErrorWrapper: function (err: Error) {
+                        return new Error('test');
+                    }
+                },
+            };
+
+            const data: any = {
+                data: {},
+                errors: [
+                    { message: 'test2', path: ['user', 'email'] },
+                    { message: 'test3', path: ['user', 'name'] }
+                ]
+            };
+            getResponseValidationResults(validity, data);
+            expect(data.errors.map((err: any) => err.message))
+                .to.deep.equal(['test2', 'test', 'test1']);
         });
 
         it('should wrap errors when wrapErros variable passed in config', () => {
@@ -154,4 +578,27 @@ describe('validation', () => {
             expect(data.errors[0].message).to.equal('test');
         });
     });
-});
\ No newline at end of file
+});
+class GraphQLInputObjectType {
+    constructor(public name: string, private fields: any) {
+    }
+
+    getFields() {
+        return this.fields;
+    }
+}
+
+class GraphQLList {
+    constructor(public ofType: any) {
+    }
+}
+
+class GraphQLNonNull {
+    constructor(public ofType: any) {
+    }
+}
+
+class GraphQLScalarType {
+    constructor(public name: string) {
+    }
+}
@@ -0,0 +1,142 @@
+import { expect } from 'chai';
+
+import { ValidatorRegistry } from '../src/validator-registry';
+
+describe('validator-registry', () => {
+    let registry: ValidatorRegistry;
+    const first = () => new Error('first');
+    const second = () => new Error('second');
+
+    beforeEach(() => {
+        registry = new ValidatorRegistry();
+    });
+
+    describe('forField', () => {
+        it('should register validators under Type:field key', () => {
+            registry.forField('Mutation', 'createUser').add(first, second);
+            expect(registry.definitions['Mutation:createUser']).to.deep.equal([first, second]);
+        });
+
+        it('should throw on invalid names', () => {
+            expect(() => registry.forField('Mutation:createUser', 'email')).to.throw(TypeError);
+            expect(() => registry.forField('Mutation', '')).to.throw(TypeError);
+        });
+    });
+
+    describe('forArgument', () => {
+        it('should register validators under Type:field(argument) key', () => {
+            registry.forArgument('Mutation', 'createUser', 'email').add(first);
+            expect(registry.definitions['Mutation:createUser(email)']).to.deep.equal([first]);
+            expect(registry.list()[0]).to.deep.equal({
+                key: 'Mutation:createUser(email)',
+                selector: 'argument',
+                typeName: 'Mutation',
+                fieldName: 'createUser',
+                argumentName: 'email',
+                validators: [first]
+            });
+        });
+    });
+
+    describe('selectors', () => {
+        it('should use legacy definition keys', () => {
+            registry.forType('User').add(first);
+            registry.forReturnType('User').add(second);
+            registry.forAll().add(first);
+            registry.global().add(second);
+            registry.forScalar('Email').add(first);
+            registry.forOperation().add(second);
+
+            expect(registry.definitions['Email']).to.deep.equal([first]);
+            expect(registry.definitions['$operation']).to.deep.equal([second]);
+            expect(registry.definitions['User']).to.deep.equal([first]);
+            expect(registry.definitions['=>User']).to.deep.equal([second]);
+            expect(registry.definitions['*']).to.deep.equal([first]);
+            expect(registry.definitions['$']).to.deep.equal([second]);
+        });
+    });
+
+    describe('ValidatorTarget', () => {
+        it('should remove validators and drop empty keys', () => {
+            const target = registry.forType('User').add(first, second);
+            target.remove(first);
+            expect(target.list()).to.deep.equal([second]);
+            target.remove(second);
+            expect(registry.definitions).to.not.have.property('User');
+        });
+
+        it('should replace validators', () => {
+            const target = registry.forType('User').add(first);
+            target.replace(second);
+            expect(target.list()).to.deep.equal([second]);
+        });
+    });
+
+    describe('list', () => {
+        it('should list all registered validators with parsed keys', () => {
+            registry.global().add(first);
+            registry.forField('User', 'email').add(second);
+            registry.definitions['Order'] = [first];
+            registry.definitions['=>Order'] = [first];
+
+            expect(registry.list()).to.deep.equal([
+                { key: '$', selector: 'global', validators: [first] },
+                { key: 'User:email', selector: 'field', typeName: 'User', fieldName: 'email', validators: [second] },
+                { key: 'Order', selector: 'type', typeName: 'Order', validators: [first] },
+                { key: '=>Order', selector: 'returnType', typeName: 'Order', validators: [first] }
+            ]);
+        });
+    });
+
+    describe('input and scalar selectors', () => {
+        it('should list keys registered for scalars and input types under their selectors', () => {
+            registry.forScalar('Email').add(first);
+            registry.forInputType('OrderItemInput').add(first);
+            registry.forInputField('OrderItemInput', 'quantity').add(second);
+
+            expect(registry.definitions['OrderItemInput:quantity']).to.deep.equal([second]);
+            expect(registry.list().map(item => [item.key, item.selector])).to.deep.equal([
+                ['Email', 'scalar'],
+                ['OrderItemInput', 'inputType'],
+                ['OrderItemInput:quantity', 'inputField']
+            ]);
+        });
+
+        it('should recognize scalar and input type keys by schema types', () => {
+            registry.definitions['Email'] = [first];
+            registry.definitions['OrderItemInput:quantity'] = [second];
+            registry.definitions['User:email'] = [second];
+            const schema = {
+                getTypeMap: () => ({
+                    Email: { name: 'Email', constructor: { name: 'GraphQLScalarType' } },
+                    OrderItemInput: {
+                        name: 'OrderItemInput',
+                        constructor: { name: 'GraphQLInputObjectType' },
+                        getFields: () => ({ quantity: {} })
+                    },
+                    User: { name: 'User', getFields: () => ({ email: {} }) }
+                })
+            };
+
+            expect(registry.list(schema).map(item => [item.key, item.selector])).to.deep.equal([
+                ['Email', 'scalar'],
+                ['OrderItemInput:quantity', 'inputField'],
+                ['User:email', 'field']
+            ]);
+        });
+    });
+
+    describe('getValidators', () => {
+        it('should return validators applicable to a field', () => {
+            registry.forAll().add(first);
+            registry.forField('User', 'email').add(second);
+            registry.global().add(second);
+
+            const validity = { ___globalValidationResultsCaptured: false };
+            const result = registry.getValidators({ name: 'email', type: 'String' }, 'User', validity);
+            expect(result).to.deep.equal([first, second, second]);
+            expect(registry.getValidators({ name: 'email', type: 'String' }, 'User', validity))
+                .to.deep.equal([first, second]);
+        });
+    });
+});